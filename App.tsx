@@ -212,7 +212,7 @@ const App: React.FC = () => {
           {currentView === 'settings' && (
              <div className="space-y-12 animate-in fade-in duration-300">
                 <section id="general" className="scroll-mt-8">
-                  <GeneralSection config={autoTranslate} setConfig={setAutoTranslate} />
+                  <GeneralSection config={autoTranslate} setConfig={setAutoTranslate} engines={engines} scenarios={scenarios} />
                 </section>
 
                 <section id="visual-styles" className="scroll-mt-8">
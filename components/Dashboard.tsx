@@ -1,7 +1,9 @@
 
-import React, { useMemo, useState } from 'react';
-import { WordEntry, WordCategory, Scenario } from '../types';
-import { Activity, BookOpen, Clock, Zap, MapPin, Tag, CalendarDays, BarChart } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { WordEntry, WordCategory, Scenario, ExposureStats } from '../types';
+import { Activity, BookOpen, Clock, Zap, MapPin, Tag, CalendarDays, BarChart, Eye } from 'lucide-react';
+import { exposureStorage } from '../utils/storage';
+import { formatExposure, mergeExposureStats } from '../utils/exposure';
 
 interface DashboardProps {
   entries: WordEntry[];
@@ -133,6 +135,26 @@ const SourceBarChart = ({ data }: { data: { label: string, value: number, color:
 
 export const Dashboard: React.FC<DashboardProps> = ({ entries, scenarios = [] }) => {
   const [trendRange, setTrendRange] = useState<'daily' | 'weekly' | 'monthly'>('daily');
+  const [exposureStats, setExposureStats] = useState<Record<string, ExposureStats>>({});
+
+  useEffect(() => {
+      exposureStorage.getValue().then(v => setExposureStats(v.stats));
+      return exposureStorage.watch(v => v && setExposureStats(v.stats));
+  }, []);
+
+  // 浏览中最常遇到的单词 (同词的多个义项合并统计)
+  const topExposed = useMemo(() => {
+      const groups = new Map<string, WordEntry[]>();
+      entries.forEach(e => {
+          const key = e.text.toLowerCase();
+          groups.set(key, [...(groups.get(key) || []), e]);
+      });
+      return Array.from(groups.values())
+          .map(group => ({ entry: group[0], stats: mergeExposureStats(group.map(e => exposureStats[e.id])) }))
+          .filter(item => item.stats.lastSeenAt > 0)
+          .sort((a, b) => b.stats.counts.impression - a.stats.counts.impression || b.stats.lastSeenAt - a.stats.lastSeenAt)
+          .slice(0, 10);
+  }, [entries, exposureStats]);
   
   // --- Data Processing ---
   const stats = useMemo(() => {
@@ -366,6 +388,29 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, scenarios = [] })
               </div>
           </div>
       </div>
+
+      {/* Exposure: 浏览中遇到单词的次数 */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+          <div className="flex flex-col mb-4">
+              <h3 className="font-bold text-slate-800 flex items-center">
+                  <Eye className="w-4 h-4 mr-2 text-blue-500"/>
+                  最常遇到的单词
+              </h3>
+              <span className="text-xs text-slate-400 mt-0.5 ml-6">网页中替换展示的次数</span>
+          </div>
+          {topExposed.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+                  {topExposed.map(({ entry, stats: exposure }) => (
+                      <div key={entry.id} className="flex items-center justify-between text-sm border-b border-slate-50 py-1.5">
+                          <span className="font-bold text-slate-700 truncate mr-3">{entry.text}</span>
+                          <span className="text-xs text-slate-400 whitespace-nowrap" title={`悬停 ${exposure.counts.hover} 次 · 打开气泡 ${exposure.counts.bubble} 次 · 朗读 ${exposure.counts.pronounce} 次 · 快速添加 ${exposure.counts.quickAdd} 次`}>{formatExposure(exposure)}</span>
+                      </div>
+                  ))}
+              </div>
+          ) : (
+              <div className="text-center text-slate-300 text-xs py-4">暂无曝光数据，浏览网页时会自动记录</div>
+          )}
+      </div>
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { PageWidgetConfig, WordEntry, WordCategory, WordTab } from '../types';
+import { PageWidgetConfig, WordEntry, WordCategory, WordTab, Scenario } from '../types';
 import { entriesStorage } from '../utils/storage';
 import { FloatingBall } from './page-widget/FloatingBall';
 import { WidgetWindow } from './page-widget/WidgetWindow';
@@ -11,9 +11,16 @@ interface PageWidgetProps {
   pageWords: WordEntry[];
   setPageWords: React.Dispatch<React.SetStateAction<WordEntry[]>>;
   onBatchAddToLearning?: (ids: string[]) => void;
+  scenarios?: Scenario[];
+  activeScenarioIds?: Set<string>;
+  hasSiteScenarioOverride?: boolean;
+  onToggleScenario?: (id: string) => void;
+  onResetScenarios?: () => void;
+  inspectorEnabled?: boolean;
+  onToggleInspector?: () => void;
 }
 
-export const PageWidget: React.FC<PageWidgetProps> = ({ config, setConfig, pageWords, onBatchAddToLearning }) => {
+export const PageWidget: React.FC<PageWidgetProps> = ({ config, setConfig, pageWords, onBatchAddToLearning, scenarios, activeScenarioIds, hasSiteScenarioOverride, onToggleScenario, onResetScenarios, inspectorEnabled, onToggleInspector }) => {
   // Local UI State to prevent storage trashing during drag
   const [localConfig, setLocalConfig] = useState<PageWidgetConfig>(config);
   
@@ -317,6 +324,13 @@ export const PageWidget: React.FC<PageWidgetProps> = ({ config, setConfig, pageW
             handleConfigDragEnd={handleConfigDragEnd}
             draggedConfigIndex={draggedConfigIndex}
             onOpenDetail={handleOpenDetail} // 绑定跳转逻辑
+            scenarios={scenarios}
+            activeScenarioIds={activeScenarioIds}
+            hasSiteScenarioOverride={hasSiteScenarioOverride}
+            onToggleScenario={onToggleScenario}
+            onResetScenarios={onResetScenarios}
+            inspectorEnabled={inspectorEnabled}
+            onToggleInspector={onToggleInspector}
          />
       )}
     </div>
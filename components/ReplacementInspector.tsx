@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { WordEntry } from '../types';
+import { X, Ban, ClipboardCopy, Check } from 'lucide-react';
+import { ReplacementDetails } from '../utils/context-capture';
+
+interface ReplacementInspectorProps {
+  details: ReplacementDetails;
+  entry?: WordEntry;
+  rect: DOMRect;
+  onClose: () => void;
+  onExclude?: (entry: WordEntry, pattern: string) => void;
+}
+
+const PANEL_WIDTH = 340;
+
+const MATCHER_LABELS: Record<ReplacementDetails['matcher'], { label: string, color: string, background: string }> = {
+  fuzzy: { label: '释义匹配 (fuzzy)', color: '#1d4ed8', background: '#eff6ff' },
+  aggressive: { label: '激进匹配 (aggressive)', color: '#b45309', background: '#fffbeb' },
+  gloss: { label: '英文高亮', color: '#047857', background: '#ecfdf5' }
+};
+
+/**
+ * 生成可粘贴到问题反馈中的匹配报告
+ */
+const buildReport = (details: ReplacementDetails, entry?: WordEntry): string => [
+  `单词: ${entry?.text || details.english} (${entry?.translation || ''})`,
+  `替换: ${details.original} -> ${details.english}`,
+  `匹配方式: ${details.matcher}`,
+  `命中释义: ${details.definition || '-'}`,
+  `相似度: ${details.score === null ? '-' : details.score.toFixed(2)}`,
+  `原句: ${details.sentence}`,
+  `译文: ${details.translation}`,
+  `页面: ${location.href}`
+].join('\n');
+
+/**
+ * 替换检查器：说明页面上某处替换是如何产生的，并可一键排除错误的匹配
+ */
+export const ReplacementInspector: React.FC<ReplacementInspectorProps> = ({ details, entry, rect, onClose, onExclude }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => { setCopied(false); }, [details]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(buildReport(details, entry));
+      setCopied(true);
+    } catch (e) {
+      console.warn('复制匹配报告失败', e);
+    }
+  };
+
+  const isChinese = /[\u4e00-\u9fa5]/.test(details.original);
+  const alreadyExcluded = !!entry?.excludePatterns?.includes(details.original);
+  const canExclude = !!entry && !!onExclude && isChinese && !alreadyExcluded;
+  const matcher = MATCHER_LABELS[details.matcher] || MATCHER_LABELS.gloss;
+
+  const left = Math.min(Math.max(10, rect.left + rect.width / 2 - PANEL_WIDTH / 2), window.innerWidth - PANEL_WIDTH - 10);
+  const top = rect.bottom + 10 + 320 > window.innerHeight && rect.top - 330 > 10 ? rect.top - 330 : rect.bottom + 10;
+
+  const containerStyle: React.CSSProperties = { position: 'fixed', zIndex: 2147483647, top, left, width: `${PANEL_WIDTH}px`, boxSizing: 'border-box', backgroundColor: '#ffffff', borderRadius: '12px', border: '1px solid #e2e8f0', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)', padding: '16px', fontFamily: 'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif', fontSize: '13px', lineHeight: '1.5', color: '#0f172a', textAlign: 'left', pointerEvents: 'auto' };
+  const labelStyle: React.CSSProperties = { fontSize: '10px', fontWeight: 700, color: '#94a3b8', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '2px' };
+  const rowStyle: React.CSSProperties = { marginBottom: '10px' };
+  const boxStyle: React.CSSProperties = { fontSize: '12px', color: '#334155', backgroundColor: '#f8fafc', border: '1px solid #f1f5f9', borderRadius: '6px', padding: '6px 8px', wordBreak: 'break-word' };
+  const btnStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', padding: '5px 10px', borderRadius: '6px', border: '1px solid #e2e8f0', backgroundColor: '#ffffff', color: '#475569', cursor: 'pointer' };
+
+  return (
+    <div style={containerStyle} onClick={e => e.stopPropagation()}>
+      <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', marginBottom: '12px' }}>
+        <div>
+          <div style={{ fontSize: '16px', fontWeight: 700 }}>{details.original} <span style={{ color: '#94a3b8', fontWeight: 400 }}>→</span> {details.english}</div>
+          <span style={{ display: 'inline-block', marginTop: '4px', fontSize: '11px', fontWeight: 600, padding: '1px 8px', borderRadius: '9999px', color: matcher.color, backgroundColor: matcher.background }}>{matcher.label}</span>
+        </div>
+        <button onClick={onClose} style={{ border: 'none', background: 'transparent', color: '#94a3b8', cursor: 'pointer', padding: '2px' }} title="关闭"><X size={16} /></button>
+      </div>
+
+      {details.matcher !== 'gloss' && (
+        <div style={{ ...rowStyle, display: 'flex', gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <div style={labelStyle}>命中释义</div>
+            <div style={boxStyle}>{details.definition || '-'}</div>
+          </div>
+          <div style={{ width: '72px' }}>
+            <div style={labelStyle}>相似度</div>
+            <div style={{ ...boxStyle, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', color: details.score !== null && details.score < 1 ? '#b45309' : '#334155' }}>{details.score === null ? '-' : details.score.toFixed(2)}</div>
+          </div>
+        </div>
+      )}
+      {entry && (
+        <div style={rowStyle}>
+          <div style={labelStyle}>词条</div>
+          <div style={boxStyle}><b>{entry.text}</b> {entry.translation}</div>
+        </div>
+      )}
+      <div style={rowStyle}>
+        <div style={labelStyle}>原句</div>
+        <div style={boxStyle}>{details.sentence || '-'}</div>
+      </div>
+      <div style={rowStyle}>
+        <div style={labelStyle}>引擎译文</div>
+        <div style={boxStyle}>{details.translation || '-'}</div>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', paddingTop: '4px' }}>
+        <button onClick={handleCopy} style={btnStyle} title="复制匹配信息，用于反馈问题">
+          {copied ? <Check size={13} /> : <ClipboardCopy size={13} />}
+          {copied ? '已复制' : '复制报告'}
+        </button>
+        {isChinese && entry && onExclude && (
+          <button
+            onClick={() => canExclude && onExclude(entry, details.original)}
+            disabled={!canExclude}
+            style={{ ...btnStyle, borderColor: '#fecaca', color: canExclude ? '#dc2626' : '#fca5a5', backgroundColor: '#fef2f2', cursor: canExclude ? 'pointer' : 'default' }}
+            title={`将「${details.original}」加入 ${entry.text} 的排除词，不再在此处替换`}
+          >
+            <Ban size={13} />
+            {alreadyExcluded ? '已排除' : '排除此匹配'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
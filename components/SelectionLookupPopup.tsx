@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { DictionaryMeaningCard, RichDictionaryResult, WordCategory, WordEntry, WordInteractionConfig } from '../types';
+import { Volume2, X, Check, Loader2 } from 'lucide-react';
+import { playWordAudio } from '../utils/audio';
+import { fetchRichWordDetails } from '../utils/dictionary-service';
+import { SelectionContext, buildEntryFromSelection, saveSelectionEntry } from '../utils/selection-lookup';
+
+interface SelectionLookupPopupProps {
+  context: SelectionContext;
+  config: WordInteractionConfig;
+  onClose: () => void;
+  onSaved: (entries: WordEntry[], count: number, category: WordCategory) => void;
+  ttsSpeed?: number;
+}
+
+const POPUP_WIDTH = 320;
+const POPUP_MAX_HEIGHT = 420;
+
+/**
+ * 划词查询弹窗：对任意网页上的英文单词或短语查词，选择释义卡片后直接保存到词库
+ */
+export const SelectionLookupPopup: React.FC<SelectionLookupPopupProps> = ({ context, config, onClose, onSaved, ttsSpeed = 1.0 }) => {
+  const [result, setResult] = useState<RichDictionaryResult | null>(null);
+  const [cards, setCards] = useState<DictionaryMeaningCard[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set([0]));
+  const [category, setCategory] = useState<WordCategory>(WordCategory.WantToLearnWord);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    setResult(null);
+    setError(null);
+    fetchRichWordDetails(context.text)
+      .then(res => {
+        if (!isMounted) return;
+        // 与添加单词弹窗一致：柯林斯释义为空时回退到高阶 / 基础释义
+        const meanings = res.meanings.length > 0 ? res.meanings : (res.expandEcMeanings?.length ? res.expandEcMeanings : res.ecMeanings || []);
+        setResult(res);
+        setCards(meanings);
+        setSelected(new Set([0]));
+      })
+      .catch(() => isMounted && setError('查询失败，未找到单词信息'));
+    return () => { isMounted = false; };
+  }, [context.text]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const toggleCard = (idx: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(idx)) next.delete(idx); else next.add(idx);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!result || selected.size === 0) return;
+    setIsSaving(true);
+    setError(null);
+    const resolved = { headword: result.text || context.text, result, meaning: null, isChinese: false };
+    let entries: WordEntry[] = [];
+    let offset = 0;
+    try {
+      for (const idx of Array.from(selected).sort((a, b) => a - b)) {
+        const entry = buildEntryFromSelection(resolved, context, category, '1', cards[idx]);
+        entries = await saveSelectionEntry({ ...entry, addedAt: entry.addedAt + offset++ });
+      }
+    } catch (e) {
+      console.error('划词保存失败', e);
+      setError(offset > 1 ? `保存失败，已保存 ${offset - 1} 个释义` : '保存失败，请重试');
+      return;
+    } finally {
+      setIsSaving(false);
+    }
+    onSaved(entries, selected.size, category);
+  };
+
+  const rect = context.rect;
+  const left = Math.min(Math.max(10, (rect?.left ?? 0) + ((rect?.width ?? 0) / 2) - POPUP_WIDTH / 2), window.innerWidth - POPUP_WIDTH - 10);
+  const below = (rect?.bottom ?? 80) + 10;
+  const top = below + POPUP_MAX_HEIGHT > window.innerHeight - 10 && (rect?.top ?? 0) - POPUP_MAX_HEIGHT - 10 > 10
+    ? (rect!.top - POPUP_MAX_HEIGHT - 10)
+    : Math.min(below, Math.max(10, window.innerHeight - POPUP_MAX_HEIGHT - 10));
+
+  const containerStyle: React.CSSProperties = { position: 'fixed', zIndex: 2147483647, top, left, width: `${POPUP_WIDTH}px`, maxHeight: `${POPUP_MAX_HEIGHT}px`, display: 'flex', flexDirection: 'column', backgroundColor: '#ffffff', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)', border: '1px solid #e2e8f0', boxSizing: 'border-box', pointerEvents: 'auto', fontFamily: 'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif', fontSize: '14px', lineHeight: '1.5', color: '#0f172a', textAlign: 'left' };
+  const headerStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', padding: '16px 16px 10px', borderBottom: '1px solid #f1f5f9' };
+  const btnStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '6px', borderRadius: '9999px', border: 'none', background: 'transparent', cursor: 'pointer', color: '#94a3b8' };
+  const listStyle: React.CSSProperties = { overflowY: 'auto', padding: '10px 16px', display: 'flex', flexDirection: 'column', gap: '8px', flex: 1 };
+  const cardStyle = (isSelected: boolean): React.CSSProperties => ({ display: 'flex', gap: '8px', padding: '8px 10px', borderRadius: '8px', cursor: 'pointer', border: `1px solid ${isSelected ? '#93c5fd' : '#e2e8f0'}`, backgroundColor: isSelected ? '#eff6ff' : '#ffffff' });
+  const checkStyle = (isSelected: boolean): React.CSSProperties => ({ flexShrink: 0, width: '16px', height: '16px', marginTop: '2px', borderRadius: '4px', display: 'flex', alignItems: 'center', justifyContent: 'center', border: `1px solid ${isSelected ? '#2563eb' : '#cbd5e1'}`, backgroundColor: isSelected ? '#2563eb' : '#ffffff', color: '#ffffff' });
+  const footerStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '8px', padding: '10px 16px 14px', borderTop: '1px solid #f1f5f9' };
+  const categoryBtnStyle = (active: boolean): React.CSSProperties => ({ padding: '4px 10px', borderRadius: '6px', fontSize: '12px', cursor: 'pointer', border: `1px solid ${active ? '#2563eb' : '#e2e8f0'}`, backgroundColor: active ? '#eff6ff' : '#ffffff', color: active ? '#2563eb' : '#64748b' });
+  const saveBtnStyle: React.CSSProperties = { marginLeft: 'auto', padding: '6px 14px', borderRadius: '8px', border: 'none', fontSize: '12px', fontWeight: 600, cursor: selected.size > 0 && !isSaving ? 'pointer' : 'not-allowed', backgroundColor: selected.size > 0 ? '#2563eb' : '#cbd5e1', color: '#ffffff', display: 'flex', alignItems: 'center', gap: '4px' };
+
+  return (
+    <div style={containerStyle} onMouseDown={e => e.stopPropagation()}>
+      <div style={headerStyle}>
+        <div>
+          <div style={{ fontSize: '20px', fontWeight: 700, lineHeight: 1.2 }}>{result?.text || context.text}</div>
+          {config.showPhonetic && result && (result.phoneticUs || result.phoneticUk) && (
+            <span style={{ fontSize: '12px', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', color: '#94a3b8' }}>{result.phoneticUs || result.phoneticUk}</span>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button style={btnStyle} onClick={() => playWordAudio(result?.text || context.text, config.autoPronounceAccent, ttsSpeed)} title="点击播放">
+            <Volume2 size={16} />
+          </button>
+          <button style={btnStyle} onClick={onClose} title="关闭">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div style={listStyle}>
+        {!result && !error && (
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#94a3b8', padding: '16px 0', fontSize: '12px' }}>
+            <Loader2 size={16} style={{ marginRight: '6px' }} /> 正在查询...
+          </div>
+        )}
+        {error && <div style={{ color: '#ef4444', fontSize: '12px', padding: '8px 0' }}>{error}</div>}
+        {result && cards.length === 0 && <div style={{ color: '#94a3b8', fontSize: '12px', padding: '8px 0' }}>未查询到释义</div>}
+        {cards.map((card, idx) => {
+          const isSelected = selected.has(idx);
+          return (
+            <div key={idx} style={cardStyle(isSelected)} onClick={() => toggleCard(idx)}>
+              <div style={checkStyle(isSelected)}>{isSelected && <Check size={12} />}</div>
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontSize: '13px', fontWeight: 500, color: '#334155' }}>
+                  {card.partOfSpeech && <span style={{ color: '#94a3b8', marginRight: '4px', fontStyle: 'italic' }}>{card.partOfSpeech}</span>}
+                  {card.defCn}
+                </div>
+                {card.defEn && <div style={{ fontSize: '11px', color: '#64748b', marginTop: '2px' }}>{card.defEn}</div>}
+                {config.showDictExample && card.example && <div style={{ fontSize: '11px', color: '#475569', fontStyle: 'italic', marginTop: '4px', borderLeft: '2px solid #60a5fa', paddingLeft: '6px' }}>{card.example}</div>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={footerStyle}>
+        <button style={categoryBtnStyle(category === WordCategory.WantToLearnWord)} onClick={() => setCategory(WordCategory.WantToLearnWord)}>想学习</button>
+        <button style={categoryBtnStyle(category === WordCategory.LearningWord)} onClick={() => setCategory(WordCategory.LearningWord)}>正在学</button>
+        <button style={saveBtnStyle} disabled={selected.size === 0 || isSaving || !result} onClick={handleSave}>
+          {isSaving ? <Loader2 size={14} /> : <Check size={14} />} 保存{selected.size > 1 ? ` (${selected.size})` : ''}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { WordEntry, WordInteractionConfig, WordCategory } from '../types';
-import { Volume2, Plus, Check, ExternalLink, BookOpen } from 'lucide-react';
+import { Volume2, Plus, Check, ExternalLink, BookOpen, SlidersHorizontal } from 'lucide-react';
 import { playWordAudio, playSentenceAudio, stopAudio } from '../utils/audio';
 import { browser } from 'wxt/browser';
 
@@ -13,6 +13,8 @@ interface WordBubbleProps {
   onMouseEnter: () => void;
   onMouseLeave: () => void;
   onAddWord: (id: string) => void;
+  onUpdateEntry?: (id: string, patch: Partial<WordEntry>) => void; // 已保存的词条可在气泡中编辑匹配规则
+  onPronounce?: (id: string) => void; // 自动朗读或点击喇叭时通知，用于曝光统计
   ttsSpeed?: number;
 }
 
@@ -25,6 +27,8 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
     onMouseEnter, 
     onMouseLeave, 
     onAddWord,
+    onUpdateEntry,
+    onPronounce,
     ttsSpeed = 1.0
 }) => {
   const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
@@ -32,6 +36,7 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
   const bubbleRef = useRef<HTMLDivElement>(null);
   const [isAdded, setIsAdded] = useState(false);
   const hasAutoPlayedRef = useRef(false);
+  const [rulesDraft, setRulesDraft] = useState<{ aliases: string, excludePatterns: string } | null>(null);
 
   useEffect(() => {
     if (entry) {
@@ -42,6 +47,7 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
   useEffect(() => {
       // 当单词 ID 改变时，重置自动播放状态
       hasAutoPlayedRef.current = false;
+      setRulesDraft(null);
   }, [entry?.id]);
 
   useEffect(() => {
@@ -60,6 +66,7 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
           hasAutoPlayedRef.current = true; // 立即标记，防止在异步循环中重复触发
           
           const wordToPlay = entry.text; // 闭包捕获
+          onPronounce?.(entry.id);
           
           (async () => {
              for(let i = 0; i < config.autoPronounceCount; i++) {
@@ -91,6 +98,7 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
     e.stopPropagation();
     if (!entry) return;
     // 点击喇叭图标同样执行智能朗读逻辑
+    onPronounce?.(entry.id);
     playWordAudio(entry.text, config.autoPronounceAccent, ttsSpeed);
   };
 
@@ -115,6 +123,21 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
       browser.runtime.sendMessage({ action: 'OPEN_OPTIONS_PAGE', path });
   };
 
+  // 匹配规则：别名与排除词，逗号分隔
+  const toggleRules = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (!entry) return;
+      setRulesDraft(rulesDraft ? null : { aliases: (entry.aliases || []).join('，'), excludePatterns: (entry.excludePatterns || []).join('，') });
+  };
+
+  const saveRules = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (!entry || !rulesDraft || !onUpdateEntry) return;
+      const parse = (text: string) => Array.from(new Set(text.split(/[,，;；\s]+/).map(v => v.trim()).filter(Boolean)));
+      onUpdateEntry(entry.id, { aliases: parse(rulesDraft.aliases), excludePatterns: parse(rulesDraft.excludePatterns) });
+      setRulesDraft(null);
+  };
+
   useEffect(() => {
     if (isVisible && targetRect && bubbleRef.current) {
       const bubbleRect = bubbleRef.current.getBoundingClientRect();
@@ -154,7 +177,7 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
       setPosition({ top: finalTop, left: finalLeft });
       setPlacedSide(side as any);
     }
-  }, [isVisible, targetRect, entry, config.bubblePosition]);
+  }, [isVisible, targetRect, entry, config.bubblePosition, !!rulesDraft]);
 
   if (!entry || !isVisible) return null;
 
@@ -176,6 +199,9 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
   const exampleStyle: React.CSSProperties = { fontSize: '12px', fontStyle: 'italic', color: '#475569', borderLeft: '3px solid #60a5fa', paddingLeft: '12px', marginTop: '4px', lineHeight: '1.5', cursor: 'pointer' };
   const linkContainerStyle: React.CSSProperties = { marginTop: '12px', paddingTop: '10px', borderTop: '1px solid #f1f5f9', fontSize: '11px', lineHeight: '1.4', display: 'flex', gap: '12px' };
   const linkStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', color: '#64748b', textDecoration: 'none', transition: 'color 0.2s', cursor: 'pointer' };
+  const rulesBoxStyle: React.CSSProperties = { marginTop: '10px', padding: '8px', backgroundColor: '#f8fafc', borderRadius: '6px', border: '1px solid #f1f5f9', fontSize: '11px', color: '#475569' };
+  const rulesInputStyle: React.CSSProperties = { width: '100%', boxSizing: 'border-box', fontSize: '12px', padding: '4px 6px', margin: '2px 0 6px', border: '1px solid #e2e8f0', borderRadius: '4px', outline: 'none', color: '#0f172a', backgroundColor: '#ffffff' };
+  const rulesSaveStyle: React.CSSProperties = { fontSize: '11px', padding: '3px 10px', border: 'none', borderRadius: '4px', backgroundColor: '#2563eb', color: '#ffffff', cursor: 'pointer' };
 
   const dictUrl = config.onlineDictUrl ? config.onlineDictUrl.replace(/{word}/g, entry.text) : '';
 
@@ -236,7 +262,32 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
                     在线词典
                 </a>
             )}
+
+            {onUpdateEntry && (
+                <div
+                    style={{ ...linkStyle, color: rulesDraft ? '#3b82f6' : linkStyle.color }}
+                    onClick={toggleRules}
+                    onMouseEnter={(e) => { e.currentTarget.style.color = '#3b82f6'; }}
+                    onMouseLeave={(e) => { e.currentTarget.style.color = rulesDraft ? '#3b82f6' : '#64748b'; }}
+                    title="设置别名与排除词"
+                >
+                    <SlidersHorizontal size={12} style={{ marginRight: '4px' }} />
+                    匹配规则
+                </div>
+            )}
         </div>
+
+        {rulesDraft && (
+            <div style={rulesBoxStyle} onClick={(e) => e.stopPropagation()}>
+                <div>别名 (也替换这些中文)</div>
+                <input style={rulesInputStyle} value={rulesDraft.aliases} onChange={(e) => setRulesDraft({ ...rulesDraft, aliases: e.target.value })} placeholder="如：订票，预约" />
+                <div>排除词 (在这些词语中不替换)</div>
+                <input style={rulesInputStyle} value={rulesDraft.excludePatterns} onChange={(e) => setRulesDraft({ ...rulesDraft, excludePatterns: e.target.value })} placeholder="如：书记" />
+                <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                    <button style={rulesSaveStyle} onClick={saveRules}>保存</button>
+                </div>
+            </div>
+        )}
     </div>
   );
 };
\ No newline at end of file
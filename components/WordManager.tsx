@@ -301,7 +301,7 @@ export const WordManager: React.FC<WordManagerProps> = ({
       </div>
 
       <div className="bg-slate-50 p-4 space-y-4 flex-1">
-        <WordList groupedEntries={groupedEntries} selectedWords={selectedWords} toggleSelectGroup={(g) => toggleSelectGroup(g)} isGroupSelected={(g) => isGroupSelected(g)} showConfig={showConfig} mergeConfig={mergeConfig} isAllWordsTab={activeTab === 'all'} searchQuery={searchQuery} ttsSpeed={ttsSpeed} onOpenDetail={onOpenDetail} />
+        <WordList groupedEntries={groupedEntries} selectedWords={selectedWords} toggleSelectGroup={(g) => toggleSelectGroup(g)} isGroupSelected={(g) => isGroupSelected(g)} showConfig={showConfig} mergeConfig={mergeConfig} isAllWordsTab={activeTab === 'all'} searchQuery={searchQuery} ttsSpeed={ttsSpeed} onOpenDetail={onOpenDetail} onUpdateEntry={(id, patch) => setEntries(prev => prev.map(e => e.id === id ? { ...e, ...patch } : e))} />
       </div>
     </div>
   );
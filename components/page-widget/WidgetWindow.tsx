@@ -1,6 +1,6 @@
 import React from 'react';
-import { PageWidgetConfig, WordTab, WordCategory, WordEntry } from '../../types';
-import { X, Settings2, CheckSquare, Square, GripVertical, Download, ExternalLink, PlayCircle, Filter, Star, BarChart2 } from 'lucide-react';
+import { PageWidgetConfig, WordTab, WordCategory, WordEntry, Scenario } from '../../types';
+import { X, Settings2, CheckSquare, Square, GripVertical, Download, ExternalLink, PlayCircle, Filter, Star, BarChart2, Layers, RotateCcw, ScanSearch } from 'lucide-react';
 import { playWordAudio } from '../../utils/audio';
 
 interface WidgetWindowProps {
@@ -25,6 +25,13 @@ interface WidgetWindowProps {
     handleConfigDragEnd: () => void;
     draggedConfigIndex: number | null;
     onOpenDetail?: (word: string) => void;
+    scenarios?: Scenario[];
+    activeScenarioIds?: Set<string>;
+    hasSiteScenarioOverride?: boolean;
+    onToggleScenario?: (id: string) => void;
+    onResetScenarios?: () => void;
+    inspectorEnabled?: boolean;
+    onToggleInspector?: () => void; // 检查模式：点击替换词查看匹配来由
 }
 
 export const WidgetWindow: React.FC<WidgetWindowProps> = ({
@@ -33,7 +40,9 @@ export const WidgetWindow: React.FC<WidgetWindowProps> = ({
     onClose, onMouseDownHeader, onMouseDownResize,
     isConfigOpen, setIsConfigOpen, updateSetting,
     handleConfigDragStart, handleConfigDragOver, handleConfigDragEnd, draggedConfigIndex,
-    onOpenDetail
+    onOpenDetail,
+    scenarios = [], activeScenarioIds, hasSiteScenarioOverride, onToggleScenario, onResetScenarios,
+    inspectorEnabled, onToggleInspector
 }) => {
     
     const getTabLabel = (tab: WordTab) => {
@@ -83,6 +92,15 @@ export const WidgetWindow: React.FC<WidgetWindowProps> = ({
                   <h2 className="text-base font-bold text-slate-800 leading-tight m-0">当前页面词汇</h2>
                </div>
                <div className="flex items-center gap-2" onMouseDown={e => e.stopPropagation()}>
+                  {onToggleInspector && (
+                     <button 
+                       onClick={onToggleInspector} 
+                       className={`p-2 rounded-lg transition-colors ${inspectorEnabled ? 'bg-amber-50 text-amber-600' : 'hover:bg-slate-100 text-slate-500'}`} 
+                       title={inspectorEnabled ? '关闭检查模式' : '检查模式：点击替换词查看匹配详情'}
+                     >
+                        <ScanSearch className="w-5 h-5" />
+                     </button>
+                  )}
                   <button 
                     onClick={() => setIsConfigOpen(!isConfigOpen)} 
                     className={`p-2 rounded-lg transition-colors ${isConfigOpen ? 'bg-blue-50 text-blue-600' : 'hover:bg-slate-100 text-slate-500'}`} 
@@ -163,6 +181,25 @@ export const WidgetWindow: React.FC<WidgetWindowProps> = ({
                </div>
             )}
             
+            {/* Scenarios (仅对当前站点生效) */}
+            {scenarios.length > 0 && onToggleScenario && (
+               <div className="px-5 py-2 border-b border-slate-100 bg-white flex items-center gap-2 shrink-0 overflow-x-auto">
+                  <Layers className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+                  <span className="text-xs text-slate-400 shrink-0">本站场景</span>
+                  {scenarios.map(s => {
+                     const isActive = activeScenarioIds?.has(s.id);
+                     return (
+                        <button key={s.id} onClick={() => onToggleScenario(s.id)} className={`px-2.5 py-0.5 text-xs rounded-full border whitespace-nowrap transition-all ${isActive ? 'bg-blue-50 border-blue-200 text-blue-600 font-medium' : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'}`}>{s.name}</button>
+                     );
+                  })}
+                  {hasSiteScenarioOverride && onResetScenarios && (
+                     <button onClick={onResetScenarios} className="ml-auto p-1 text-slate-400 hover:text-slate-600 shrink-0" title="恢复默认场景">
+                        <RotateCcw className="w-3.5 h-3.5" />
+                     </button>
+                  )}
+               </div>
+            )}
+
             {/* Tabs & Actions */}
             <div className="px-5 py-3 border-b border-slate-100 bg-white flex flex-col gap-3 shrink-0">
                <div className="flex gap-2">
@@ -1,8 +1,10 @@
-import React, { useState } from 'react';
-import { TranslationEngine, EngineType, DictionaryEngine } from '../../types';
-import { Plus, GripVertical, RefreshCw, CheckCircle, WifiOff, Trash2, Globe, BrainCircuit, X, Book, ExternalLink, Zap, AlertCircle } from 'lucide-react';
-import { translateWithEngine } from '../../utils/api';
+import React, { useState, useEffect } from 'react';
+import { TranslationEngine, EngineType, DictionaryEngine, TranslationCacheStats, EngineCooldownStatus } from '../../types';
+import { Plus, GripVertical, RefreshCw, CheckCircle, WifiOff, Trash2, Globe, BrainCircuit, X, Book, ExternalLink, Zap, AlertCircle, Database, Timer } from 'lucide-react';
+import { translateWithEngine, getBatchCharBudget } from '../../utils/api';
 import { dictionariesStorage } from '../../utils/storage';
+import { DEFAULT_MAX_CONCURRENCY, DEFAULT_REQUESTS_PER_SECOND } from '../../utils/engine-pool';
+import { sendBackgroundMessage } from '../../utils/messaging';
 
 const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text, children }) => {
   return (
@@ -27,6 +29,50 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
   const [newEngineType, setNewEngineType] = useState<EngineType | null>(null);
   const [newEngineData, setNewEngineData] = useState<Partial<TranslationEngine>>({});
   const [draggedEngineIndex, setDraggedEngineIndex] = useState<number | null>(null);
+  const [cacheStats, setCacheStats] = useState<TranslationCacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const [cooldowns, setCooldowns] = useState<Record<string, EngineCooldownStatus>>({});
+
+  const refreshCacheStats = async () => {
+    try {
+      const res = await sendBackgroundMessage({ action: 'GET_TRANSLATION_CACHE_STATS' });
+      if (res?.success && res.data) setCacheStats(res.data);
+    } catch (e) {
+      console.warn('Failed to load translation cache stats', e);
+    }
+  };
+
+  useEffect(() => { refreshCacheStats(); }, []);
+
+  // 失败后处于冷却中的引擎 (由 Background 维护)
+  const refreshCooldowns = async () => {
+    try {
+      const res = await sendBackgroundMessage({ action: 'GET_ENGINE_COOLDOWNS' });
+      if (res?.success && res.data) setCooldowns(res.data);
+    } catch (e) {
+      console.warn('Failed to load engine cooldowns', e);
+    }
+  };
+
+  useEffect(() => { refreshCooldowns(); }, []);
+
+  const updateEngine = (id: string, patch: Partial<TranslationEngine>) => {
+    setEngines(prev => prev.map(en => en.id === id ? { ...en, ...patch } : en));
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm('确定要清空所有已缓存的句子译文吗？')) return;
+    setIsClearingCache(true);
+    try {
+      await sendBackgroundMessage({ action: 'CLEAR_TRANSLATION_CACHE' });
+      await refreshCacheStats();
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
+  const cacheLookups = cacheStats ? cacheStats.hits + cacheStats.misses : 0;
+  const cacheHitRate = cacheStats && cacheLookups > 0 ? (cacheStats.hits / cacheLookups) * 100 : 0;
 
   const handleDragStart = (index: number) => setDraggedEngineIndex(index);
   const handleDragOver = (e: React.DragEvent, index: number) => {
@@ -65,6 +111,11 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
     try {
       const testResult = await translateWithEngine(engine, "Hello World", "zh");
       setEngines(prev => prev.map(e => e.id === id ? { ...e, isTesting: false, testResult: 'success' } : e));
+      // 测试通过说明引擎已恢复，解除冷却
+      if (cooldowns[id]) {
+        await sendBackgroundMessage({ action: 'RESET_ENGINE_COOLDOWN', engineId: id });
+        refreshCooldowns();
+      }
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : '未知错误';
       setEngines(prev => prev.map(e => e.id === id ? { ...e, isTesting: false, testResult: 'fail', testErrorMessage: errMsg } : e));
@@ -96,7 +147,7 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
         <div className="p-6 border-b border-slate-200 flex justify-between items-center">
             <div>
               <h2 className="text-lg font-bold text-slate-800">翻译引擎配置</h2>
-              <p className="text-sm text-slate-500 mt-1">配置翻译 API。系统将按列表顺序依次尝试调用 (拖拽调整顺序)。</p>
+              <p className="text-sm text-slate-500 mt-1">配置翻译 API。系统将按列表顺序依次尝试调用 (拖拽调整顺序)，出错的引擎会暂时冷却并自动切换到下一个。</p>
             </div>
             <button onClick={() => setIsModalOpen(true)} className="text-sm text-blue-600 font-medium hover:bg-blue-50 px-3 py-1.5 rounded-lg border border-transparent hover:border-blue-100 flex items-center transition">
                <Plus className="w-4 h-4 mr-2"/> 添加自定义引擎
@@ -119,6 +170,13 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
                        </span>
                     </div>
                     <div className="flex items-center space-x-2">
+                       {cooldowns[engine.id] && (
+                         <Tooltip text={cooldowns[engine.id].lastError || "请求失败"}>
+                           <span className="flex items-center text-xs text-amber-600 cursor-help bg-amber-50 px-2 py-0.5 rounded border border-amber-100">
+                             <Timer className="w-3 h-3 mr-1"/> 冷却中 ({Math.max(1, Math.ceil((cooldowns[engine.id].until - Date.now()) / 1000))}s)
+                           </span>
+                         </Tooltip>
+                       )}
                        {engine.isTesting && <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />}
                        {engine.testResult === 'success' && <span className="flex items-center text-xs text-green-600"><CheckCircle className="w-3 h-3 mr-1"/> 正常</span>}
                        {engine.testResult === 'fail' && (
@@ -213,6 +271,20 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
                              <input type="password" placeholder="请输入 API Key" className="px-3 py-2 border border-slate-300 rounded w-full font-mono text-xs" value={engine.apiKey || ''} onChange={e => setEngines(prev => prev.map(en => en.id === engine.id ? {...en, apiKey: e.target.value} : en))} />
                          </div>
                        )}
+
+                       {/* 限速 (所有引擎通用) */}
+                       <div className="col-span-2 md:col-span-1">
+                           <label className="text-[10px] text-slate-500 mb-1 block">最大并发请求数</label>
+                           <input type="number" min={1} max={10} className="px-3 py-2 border border-slate-300 rounded w-full text-xs" value={engine.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY} onChange={e => updateEngine(engine.id, { maxConcurrency: Math.max(1, parseInt(e.target.value) || 1) })} />
+                       </div>
+                       <div className="col-span-2 md:col-span-1">
+                           <label className="text-[10px] text-slate-500 mb-1 block">每秒请求数 (0 为不限)</label>
+                           <input type="number" min={0} max={50} step={0.5} className="px-3 py-2 border border-slate-300 rounded w-full text-xs" value={engine.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND} onChange={e => updateEngine(engine.id, { requestsPerSecond: Math.max(0, parseFloat(e.target.value) || 0) })} />
+                       </div>
+                       <div className="col-span-2 md:col-span-1">
+                           <label className="text-[10px] text-slate-500 mb-1 block">单次批量翻译字符数</label>
+                           <input type="number" min={200} max={10000} step={100} className="px-3 py-2 border border-slate-300 rounded w-full text-xs" value={getBatchCharBudget(engine)} onChange={e => updateEngine(engine.id, { batchCharLimit: Math.max(200, parseInt(e.target.value) || 0) })} />
+                       </div>
                     </div>
                   )}
                 </div>
@@ -220,6 +292,34 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
             </div>
           ))}
         </div>
+        <div className="px-6 py-5 border-t border-slate-200">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="text-sm font-bold text-slate-800 flex items-center"><Database className="w-4 h-4 mr-2 text-slate-500"/> 翻译缓存</h3>
+                    <p className="text-xs text-slate-500 mt-1">已翻译过的句子会按引擎与目标语言缓存 7 天，重复访问同一页面时无需再次消耗接口额度。</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0 ml-4">
+                    <button onClick={refreshCacheStats} className="p-1.5 text-slate-400 hover:text-blue-600 rounded hover:bg-blue-50 transition" title="刷新统计"><RefreshCw className="w-4 h-4"/></button>
+                    <button onClick={handleClearCache} disabled={isClearingCache} className="flex items-center text-xs text-red-600 hover:bg-red-50 px-3 py-1.5 rounded-lg border border-red-100 transition disabled:opacity-50">
+                        <Trash2 className="w-3.5 h-3.5 mr-1.5"/> 清空缓存
+                    </button>
+                </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3 mt-4">
+                <div className="bg-slate-50 border border-slate-100 rounded-lg p-3">
+                    <div className="text-[10px] text-slate-400 uppercase tracking-wider">命中率</div>
+                    <div className="text-lg font-bold text-slate-800">{cacheLookups > 0 ? `${cacheHitRate.toFixed(1)}%` : '--'}</div>
+                </div>
+                <div className="bg-slate-50 border border-slate-100 rounded-lg p-3">
+                    <div className="text-[10px] text-slate-400 uppercase tracking-wider" title="按段落统计：段落内所有句子均有缓存才算命中">命中 / 查询段落</div>
+                    <div className="text-lg font-bold text-slate-800">{cacheStats ? `${cacheStats.hits} / ${cacheLookups}` : '--'}</div>
+                </div>
+                <div className="bg-slate-50 border border-slate-100 rounded-lg p-3">
+                    <div className="text-[10px] text-slate-400 uppercase tracking-wider">缓存句数</div>
+                    <div className="text-lg font-bold text-slate-800">{cacheStats ? cacheStats.size : '--'}</div>
+                </div>
+            </div>
+        </div>
         <div className="p-6 border-t border-slate-200 bg-slate-50">
             <h3 className="text-sm font-bold text-slate-800 mb-4 flex items-center"><Book className="w-4 h-4 mr-2 text-slate-500"/> 词典数据源</h3>
             <div className="space-y-3">
@@ -1,14 +1,21 @@
 
 import React, { useState } from 'react';
-import { AutoTranslateConfig } from '../../types';
-import { ShieldAlert, ShieldCheck, X, Mic2, SplitSquareHorizontal, Scan, Zap, AlertTriangle, Power, Globe } from 'lucide-react';
+import { AutoTranslateConfig, TranslationEngine, SiteMode, TranslationTriggerMode, Scenario } from '../../types';
+import { ShieldAlert, ShieldCheck, X, Mic2, SplitSquareHorizontal, Scan, Zap, AlertTriangle, Power, Globe, Keyboard, Highlighter } from 'lucide-react';
+import { SiteRulesPanel } from './SiteRulesPanel';
+import { isEnglishGlossEnabled } from '../../utils/english-gloss';
 
 interface GeneralSectionProps {
   config: AutoTranslateConfig;
   setConfig: React.Dispatch<React.SetStateAction<AutoTranslateConfig>>;
+  engines?: TranslationEngine[];
+  scenarios?: Scenario[];
 }
 
-export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfig }) => {
+export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfig, engines = [], scenarios = [] }) => {
+  const siteMode: SiteMode = config.siteMode || 'blacklist';
+  const triggerMode: TranslationTriggerMode = config.triggerMode || 'auto';
+
   const [newBlacklist, setNewBlacklist] = useState('');
   const [newWhitelist, setNewWhitelist] = useState('');
 
@@ -100,6 +107,31 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
                 colorClass="text-blue-600 bg-blue-50 border-blue-100"
             />
 
+            {config.enabled && (
+                <div className="flex items-center justify-between px-4 py-3 -mt-2 ml-14 rounded-lg border border-slate-100 bg-slate-50">
+                    <div>
+                        <h3 className="font-bold text-slate-900 text-xs flex items-center"><Keyboard className="w-3.5 h-3.5 mr-1.5 text-slate-400"/>触发方式</h3>
+                        <p className="text-[11px] text-slate-500 mt-0.5">
+                            {triggerMode === 'manual' ? '页面加载后不自动处理，按 Alt+T 开始替换，再按一次恢复原文。' : '页面加载后自动开始替换，仍可按 Alt+T 临时关闭 / 重新开启。'}
+                        </p>
+                    </div>
+                    <div className="flex bg-white p-1 rounded-lg border border-slate-200 shadow-sm shrink-0 ml-4">
+                        <button
+                            onClick={() => setConfig({...config, triggerMode: 'auto'})}
+                            className={`px-3 py-1 rounded-md text-xs transition-all ${triggerMode === 'auto' ? 'bg-blue-50 text-blue-600 font-bold' : 'text-slate-500 hover:bg-slate-50'}`}
+                        >
+                            自动
+                        </button>
+                        <button
+                            onClick={() => setConfig({...config, triggerMode: 'manual'})}
+                            className={`px-3 py-1 rounded-md text-xs transition-all ${triggerMode === 'manual' ? 'bg-blue-50 text-blue-600 font-bold' : 'text-slate-500 hover:bg-slate-50'}`}
+                        >
+                            手动 (Alt+T)
+                        </button>
+                    </div>
+                </div>
+            )}
+
             <ToggleCard 
                 title="扫描整个页面" 
                 desc="默认仅处理页面的主要内容区域（Main/Article）。开启后将扩大范围至侧边栏、导航及页脚等区域，可能会略微影响性能。"
@@ -118,9 +150,26 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
                 colorClass="text-indigo-600 bg-indigo-50 border-indigo-100"
             />
 
+            <ToggleCard 
+                title="英文页面高亮模式" 
+                desc="在英文网页中直接高亮词库里「正在学」「想学习」的单词（含词形变化），悬浮同样显示查词气泡。无需翻译引擎，不消耗 API 额度。"
+                icon={Highlighter}
+                checked={isEnglishGlossEnabled(config)}
+                onChange={v => setConfig({...config, englishGloss: v})}
+                colorClass="text-emerald-600 bg-emerald-50 border-emerald-100"
+                warning={
+                    isEnglishGlossEnabled(config) ? (
+                        <label className="flex items-center text-[11px] text-slate-600 gap-2 cursor-pointer w-fit">
+                            <input type="checkbox" checked={config.showGlossTranslation ?? true} onChange={e => setConfig({...config, showGlossTranslation: e.target.checked})} className="rounded text-emerald-600 border-slate-300"/>
+                            在单词后显示简短中文释义
+                        </label>
+                    ) : null
+                }
+            />
+
             <ToggleCard 
                 title="激进匹配模式 (Aggressive Mode)" 
-                desc="当单词在译文中存在但因变形或翻译差异未匹配时，尝试实时调用词典 API 获取所有释义进行二次模糊匹配。"
+                desc="当单词在译文中存在但因变形或翻译差异未匹配时，使用词典中的全部释义进行二次模糊匹配。释义在保存单词后预先查询并缓存，匹配时不再请求。"
                 icon={Zap}
                 checked={config.aggressiveMode}
                 onChange={v => setConfig({...config, aggressiveMode: v})}
@@ -129,7 +178,7 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
                     config.aggressiveMode ? (
                         <div className="flex items-center text-[10px] text-amber-600 bg-amber-50 px-2 py-1 rounded border border-amber-100 w-fit">
                             <AlertTriangle className="w-3 h-3 mr-1"/> 
-                            注意：开启后会显著增加 API 请求量。
+                            注意：开启后会为词库中的每个单词查询一次词典，新单词的释义缓存完成前不参与激进匹配。
                         </div>
                     ) : null
                 }
@@ -177,6 +226,30 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
            </div>
         </div>
 
+        {/* Site Mode */}
+        <div className="flex items-center justify-between bg-slate-50 p-4 rounded-xl border border-slate-100">
+           <div>
+               <h3 className="font-bold text-slate-900 text-sm">站点生效模式</h3>
+               <p className="text-xs text-slate-500 mt-1">
+                   {siteMode === 'blacklist' ? '除黑名单外的所有网站都会运行，白名单中的网站即使关闭了默认翻译也会强制运行。' : '仅在白名单中的网站运行，其它网站一律不处理。'}
+               </p>
+           </div>
+           <div className="flex bg-white p-1 rounded-lg border border-slate-200 shadow-sm shrink-0 ml-4">
+               <button
+                  onClick={() => setConfig({...config, siteMode: 'blacklist'})}
+                  className={`flex items-center px-3 py-1.5 rounded-md text-xs transition-all ${siteMode === 'blacklist' ? 'bg-red-50 text-red-600 font-bold' : 'text-slate-500 hover:bg-slate-50'}`}
+               >
+                  <ShieldAlert className="w-3.5 h-3.5 mr-1.5" /> 黑名单模式
+               </button>
+               <button
+                  onClick={() => setConfig({...config, siteMode: 'whitelist'})}
+                  className={`flex items-center px-3 py-1.5 rounded-md text-xs transition-all ${siteMode === 'whitelist' ? 'bg-green-50 text-green-600 font-bold' : 'text-slate-500 hover:bg-slate-50'}`}
+               >
+                  <ShieldCheck className="w-3.5 h-3.5 mr-1.5" /> 仅白名单
+               </button>
+           </div>
+        </div>
+
         {/* Lists */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
            {/* Blacklist */}
@@ -225,7 +298,7 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
               <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center gap-2">
                     <ShieldCheck className="w-4 h-4 text-green-500" />
-                    <h3 className="text-sm font-bold text-slate-800">白名单 (强制翻译)</h3>
+                    <h3 className="text-sm font-bold text-slate-800">{siteMode === 'whitelist' ? '白名单 (仅在这些网站运行)' : '白名单 (强制翻译)'}</h3>
                   </div>
                   <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{config.whitelist.length} 条规则</span>
               </div>
@@ -262,6 +335,8 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
            </div>
         </div>
 
+        <SiteRulesPanel rules={config.siteRules || []} onChange={rules => setConfig({...config, siteRules: rules})} engines={engines} scenarios={scenarios} />
+
       </div>
     </section>
   );
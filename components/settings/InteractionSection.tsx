@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { WordInteractionConfig, InteractionTrigger, ModifierKey, MouseAction, BubblePosition } from '../../types';
+import { WordInteractionConfig, InteractionTrigger, ModifierKey, MouseAction, BubblePosition, SelectionLookupConfig, SelectionLookupAction } from '../../types';
 import { Volume2, Info, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Plus, ExternalLink, BookOpen } from 'lucide-react';
+import { DEFAULT_WORD_INTERACTION } from '../../constants';
 import { playWordAudio, playTextToSpeech } from '../../utils/audio';
 import { browser } from 'wxt/browser';
 
@@ -193,6 +194,11 @@ export const InteractionSection: React.FC<InteractionSectionProps> = ({ config,
       }, config.dismissDelay || 300);
   };
 
+  const selectionLookup: SelectionLookupConfig = config.selectionLookup ?? DEFAULT_WORD_INTERACTION.selectionLookup!;
+  const updateSelectionLookup = (patch: Partial<SelectionLookupConfig>) => {
+      setConfig({ ...config, selectionLookup: { ...selectionLookup, ...patch } });
+  };
+
   // --- Actions ---
   const openDetailPreview = (e: React.MouseEvent) => {
       e.stopPropagation();
@@ -272,6 +278,42 @@ export const InteractionSection: React.FC<InteractionSectionProps> = ({ config,
                     onChange={(val) => setConfig({...config, quickAddTrigger: val})}
                 />
 
+                <div className="bg-slate-50 p-4 rounded-lg border border-slate-100">
+                   <div className="flex items-center justify-between mb-3">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block">划词查询 (任意网页文本)</label>
+                      <input type="checkbox" checked={selectionLookup.enabled} onChange={e => updateSelectionLookup({ enabled: e.target.checked })} className="rounded text-blue-600"/>
+                   </div>
+                   <div className={`flex gap-2 items-center ${selectionLookup.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                      <div className="flex-1">
+                        <label className="text-[10px] text-slate-500 mb-1 block">控制键</label>
+                        <select 
+                          value={selectionLookup.modifier} 
+                          onChange={(e) => updateSelectionLookup({ modifier: e.target.value as ModifierKey })}
+                          className="w-full text-sm border-slate-300 rounded-lg focus:ring-blue-500"
+                        >
+                          <option value="None">无 (None)</option>
+                          <option value="Alt">Alt</option>
+                          <option value="Ctrl">Ctrl</option>
+                          <option value="Shift">Shift</option>
+                          <option value="Meta">Command / Win</option>
+                        </select>
+                      </div>
+                      <span className="text-slate-300 pt-4">+</span>
+                      <div className="flex-1">
+                        <label className="text-[10px] text-slate-500 mb-1 block">鼠标动作</label>
+                        <select 
+                          value={selectionLookup.action} 
+                          onChange={(e) => updateSelectionLookup({ action: e.target.value as SelectionLookupAction })}
+                          className="w-full text-sm border-slate-300 rounded-lg focus:ring-blue-500"
+                        >
+                          <option value="DoubleClick">双击单词 (Double)</option>
+                          <option value="Select">划选文本 (Select)</option>
+                        </select>
+                      </div>
+                   </div>
+                   <p className="text-[10px] text-slate-400 mt-2">* 对网页上任意英文单词或短语查词，可勾选释义后直接保存到词库。</p>
+                </div>
+
                 <div className="bg-slate-50 p-4 rounded-lg border border-slate-100">
                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 block">自动朗读设置</label>
                    <div className="flex gap-4 items-end">
@@ -49,29 +49,33 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({ engines, entries
 
             // STEP 2: Fuzzy Matching with Context Verification
             // Note: findFuzzyMatches v2 takes the translated text as the 3rd argument
-            const finalMatches = findFuzzyMatches(inputText, entries, apiResult);
+            const finalMatches = findFuzzyMatches(inputText, entries, apiResult, autoTranslateConfig.matchInflections);
 
-            // STEP 3: Render Mixed Text
-            const sortedEntries = finalMatches.sort((a, b) => b.text.length - a.text.length);
+            // STEP 3: Render Mixed Text (按匹配位置切分，与页面替换保持一致)
+            const sortedEntries = finalMatches.sort((a, b) => a.index - b.index);
             
             let mixedContent: React.ReactNode;
 
             if (sortedEntries.length === 0) {
                  mixedContent = <span>{inputText}</span>;
             } else {
-                const escapeRegExp = (string: string) => string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                const pattern = new RegExp(`(${sortedEntries.map(e => escapeRegExp(e.text)).join('|')})`, 'g');
-                const parts = inputText.split(pattern);
+                const parts: { text: string, match?: typeof sortedEntries[number] }[] = [];
+                let cursor = 0;
+                sortedEntries.forEach(m => {
+                    if (m.index > cursor) parts.push({ text: inputText.substring(cursor, m.index) });
+                    parts.push({ text: m.text, match: m });
+                    cursor = m.index + m.text.length;
+                });
+                if (cursor < inputText.length) parts.push({ text: inputText.substring(cursor) });
                 
                 mixedContent = (
                     <div>
-                        {parts.map((part, idx) => {
-                            const match = sortedEntries.find(e => e.text === part);
+                        {parts.map(({ text: part, match }, idx) => {
                             if (match) {
                                 // Using buildReplacementHtml to ensure preview matches actual content script logic exactly
                                 const html = buildReplacementHtml(
                                     match.text,
-                                    match.entry.text,
+                                    match.matchedWord,
                                     match.entry.category,
                                     styles,
                                     originalTextConfig,
@@ -1,7 +1,13 @@
 
 import React, { useState } from 'react';
-import { Scenario } from '../../types';
-import { Trash2, Plus } from 'lucide-react';
+import { Scenario, WordCategory } from '../../types';
+import { Trash2, Plus, Palette } from 'lucide-react';
+
+const CATEGORY_LABELS: { category: WordCategory; label: string }[] = [
+  { category: WordCategory.LearningWord, label: '正在学' },
+  { category: WordCategory.WantToLearnWord, label: '想学习' },
+  { category: WordCategory.KnownWord, label: '已掌握' },
+];
 
 interface ScenariosSectionProps {
   scenarios: Scenario[];
@@ -10,6 +16,7 @@ interface ScenariosSectionProps {
 
 export const ScenariosSection: React.FC<ScenariosSectionProps> = ({ scenarios, setScenarios }) => {
   const [newScenarioName, setNewScenarioName] = useState('');
+  const [styleEditingId, setStyleEditingId] = useState<string | null>(null);
 
   const addScenario = () => {
     if (!newScenarioName.trim()) return;
@@ -20,31 +27,77 @@ export const ScenariosSection: React.FC<ScenariosSectionProps> = ({ scenarios, s
 
   const deleteScenario = (id: string) => {
     if (id === '1') return; 
-    setScenarios(scenarios.filter(s => s.id !== id));
+    const next = scenarios.filter(s => s.id !== id);
+    // 删除唯一启用的场景时回退到默认场景
+    setScenarios(next.some(s => s.isActive) ? next : next.map(s => s.id === '1' ? { ...s, isActive: true } : s));
+  };
+
+  const toggleScenario = (id: string) => {
+    const next = scenarios.map(s => s.id === id ? { ...s, isActive: !s.isActive } : s);
+    if (!next.some(s => s.isActive)) return; // 至少保留一个场景
+    setScenarios(next);
   };
 
+  const setStyleColor = (scenario: Scenario, category: WordCategory, color: string | undefined) => {
+    const styles = { ...(scenario.styles || {}) };
+    if (color === undefined) delete styles[category];
+    else styles[category] = { ...styles[category], color };
+    setScenarios(scenarios.map(s => s.id === scenario.id ? { ...s, styles } : s));
+  };
+
+  const editingScenario = scenarios.find(s => s.id === styleEditingId);
+
   return (
     <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
       <div className="p-6 border-b border-slate-200">
           <h2 className="text-lg font-bold text-slate-800">学习场景</h2>
-          <p className="text-sm text-slate-500">不同场景可独立维护词库（如考试、旅游、工作）。</p>
+          <p className="text-sm text-slate-500">不同场景可独立维护词库（如考试、旅游、工作）。点击卡片启用或停用（至少保留一个），网页中仅替换已启用场景的单词。</p>
       </div>
       <div className="p-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
            {scenarios.map(s => (
-             <div key={s.id} className={`relative flex items-center justify-between p-4 rounded-xl border-2 transition-all ${s.isActive ? 'border-blue-500 bg-blue-50' : 'border-slate-100 hover:border-blue-200'}`}>
+             <div key={s.id} onClick={() => toggleScenario(s.id)} className={`relative flex items-center justify-between p-4 rounded-xl border-2 cursor-pointer transition-all ${s.isActive ? 'border-blue-500 bg-blue-50' : 'border-slate-100 hover:border-blue-200'}`}>
                 <div className="flex items-center">
                   <div className={`w-3 h-3 rounded-full mr-3 ${s.isActive ? 'bg-blue-500' : 'bg-slate-300'}`}></div>
                   <span className={`font-medium ${s.isActive ? 'text-blue-800' : 'text-slate-600'}`}>{s.name}</span>
                 </div>
-                {s.id !== '1' && (
-                  <button onClick={() => deleteScenario(s.id)} className="text-slate-400 hover:text-red-500 p-1">
-                    <Trash2 className="w-4 h-4" />
+                <div className="flex items-center" onClick={e => e.stopPropagation()}>
+                  <button onClick={() => setStyleEditingId(styleEditingId === s.id ? null : s.id)} className={`p-1 ${s.styles && Object.keys(s.styles).length > 0 ? 'text-blue-500' : 'text-slate-400'} hover:text-blue-600`} title="场景样式">
+                    <Palette className="w-4 h-4" />
                   </button>
-                )}
+                  {s.id !== '1' && (
+                    <button onClick={() => deleteScenario(s.id)} className="text-slate-400 hover:text-red-500 p-1">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
              </div>
            ))}
         </div>
+        {editingScenario && (
+          <div className="mb-6 bg-slate-50 rounded-xl border border-slate-200 p-4">
+            <label className="text-[10px] text-slate-500 mb-2 block">「{editingScenario.name}」场景的替换文字颜色 (未勾选则使用全局样式)</label>
+            <div className="flex flex-wrap gap-4">
+              {CATEGORY_LABELS.map(({ category, label }) => {
+                const color = editingScenario.styles?.[category]?.color;
+                return (
+                  <label key={category} className="flex items-center gap-2 text-xs text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={color !== undefined}
+                      onChange={e => setStyleColor(editingScenario, category, e.target.checked ? '#2563eb' : undefined)}
+                      className="rounded text-blue-600 border-slate-300"
+                    />
+                    {label}
+                    {color !== undefined && (
+                      <input type="color" value={color} onChange={e => setStyleColor(editingScenario, category, e.target.value)} className="w-6 h-6 border border-slate-200 rounded cursor-pointer" />
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
         <div className="flex gap-2">
            <input 
              type="text" 
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { SiteRule, SiteRuleOverrides, TranslationEngine, WordCategory, Scenario } from '../../types';
+import { Route, Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface SiteRulesPanelProps {
+  rules: SiteRule[];
+  onChange: (rules: SiteRule[]) => void;
+  engines: TranslationEngine[];
+  scenarios?: Scenario[];
+}
+
+type BooleanOverrideKey = 'enabled' | 'bilingualMode' | 'translateWholePage' | 'aggressiveMode';
+
+const BOOLEAN_OVERRIDES: { key: BooleanOverrideKey; label: string }[] = [
+  { key: 'enabled', label: '自动翻译' },
+  { key: 'bilingualMode', label: '双语对照' },
+  { key: 'translateWholePage', label: '扫描整页' },
+  { key: 'aggressiveMode', label: '激进匹配' },
+];
+
+const CATEGORY_LABELS: { category: WordCategory; label: string }[] = [
+  { category: WordCategory.LearningWord, label: '正在学' },
+  { category: WordCategory.WantToLearnWord, label: '想学习' },
+  { category: WordCategory.KnownWord, label: '已掌握' },
+];
+
+export const SiteRulesPanel: React.FC<SiteRulesPanelProps> = ({ rules, onChange, engines, scenarios = [] }) => {
+  const [newPattern, setNewPattern] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const addRule = () => {
+    const pattern = newPattern.trim();
+    if (!pattern) return;
+    const rule: SiteRule = { id: `rule-${Date.now()}`, pattern, overrides: {} };
+    onChange([...rules, rule]);
+    setExpandedId(rule.id);
+    setNewPattern('');
+  };
+
+  const updateRule = (id: string, updater: (rule: SiteRule) => SiteRule) => {
+    onChange(rules.map(r => r.id === id ? updater(r) : r));
+  };
+
+  const updateOverrides = (id: string, patch: Partial<SiteRuleOverrides>) => {
+    updateRule(id, r => ({ ...r, overrides: { ...r.overrides, ...patch } }));
+  };
+
+  const setStyleColor = (rule: SiteRule, category: WordCategory, color: string | undefined) => {
+    const styles = { ...(rule.overrides.styles || {}) };
+    if (color === undefined) delete styles[category];
+    else styles[category] = { ...styles[category], color };
+    updateOverrides(rule.id, { styles });
+  };
+
+  const toggleScenario = (rule: SiteRule, scenarioId: string) => {
+    const current = rule.overrides.scenarioIds || [];
+    const next = current.includes(scenarioId) ? current.filter(id => id !== scenarioId) : [...current, scenarioId];
+    updateOverrides(rule.id, { scenarioIds: next.length > 0 ? next : undefined });
+  };
+
+  const describeRule = (rule: SiteRule) => {
+    const parts: string[] = [];
+    BOOLEAN_OVERRIDES.forEach(({ key, label }) => {
+      const v = rule.overrides[key];
+      if (v !== undefined) parts.push(`${label}${v ? '开' : '关'}`);
+    });
+    if (rule.overrides.engineId) parts.push(engines.find(e => e.id === rule.overrides.engineId)?.name || rule.overrides.engineId);
+    if (rule.overrides.scenarioIds?.length) parts.push(rule.overrides.scenarioIds.map(id => scenarios.find(s => s.id === id)?.name || id).join('/'));
+    if (rule.overrides.styles && Object.keys(rule.overrides.styles).length > 0) parts.push('自定义样式');
+    return parts.length > 0 ? parts.join(' · ') : '未设置覆盖项';
+  };
+
+  return (
+    <div className="bg-slate-50 rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Route className="w-4 h-4 text-blue-500" />
+          <h3 className="text-sm font-bold text-slate-800">站点规则 (按网址覆盖设置)</h3>
+        </div>
+        <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{rules.length} 条规则</span>
+      </div>
+      <p className="text-xs text-slate-500 mb-4 leading-relaxed">
+        支持通配符与路径，例如 <code className="font-mono bg-white px-1 rounded border border-slate-100">*.zhihu.com</code>、<code className="font-mono bg-white px-1 rounded border border-slate-100">github.com/*/issues/*</code>。不含通配符的域名按包含匹配 (<code className="font-mono bg-white px-1 rounded border border-slate-100">google.com</code> 同样匹配 google.com.hk)，需要精确限定时请使用通配符。多条规则同时命中时，靠后的规则优先。
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={newPattern}
+          onChange={e => setNewPattern(e.target.value)}
+          placeholder="例如: sspai.com/post/*"
+          className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-blue-100 focus:border-blue-400 outline-none transition-all"
+          onKeyDown={e => e.key === 'Enter' && addRule()}
+        />
+        <button onClick={addRule} className="px-3 py-2 bg-slate-800 text-white rounded-lg text-xs hover:bg-slate-700 transition shadow-sm flex items-center"><Plus className="w-3.5 h-3.5 mr-1"/>添加</button>
+      </div>
+
+      <div className="space-y-2">
+        {rules.length === 0 && (
+          <div className="flex flex-col items-center justify-center text-slate-300 py-6 bg-white border border-slate-200 rounded-lg">
+            <Route className="w-8 h-8 mb-2 opacity-20"/>
+            <span className="text-xs">暂无站点规则</span>
+          </div>
+        )}
+        {rules.map(rule => {
+          const isExpanded = expandedId === rule.id;
+          return (
+            <div key={rule.id} className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+              <div className="flex items-center px-3 py-2 gap-2 cursor-pointer hover:bg-slate-50" onClick={() => setExpandedId(isExpanded ? null : rule.id)}>
+                {isExpanded ? <ChevronDown className="w-3.5 h-3.5 text-slate-400"/> : <ChevronRight className="w-3.5 h-3.5 text-slate-400"/>}
+                <span className="font-mono text-xs text-slate-700 truncate">{rule.pattern}</span>
+                <span className="text-[10px] text-slate-400 truncate ml-auto">{describeRule(rule)}</span>
+                <button onClick={e => { e.stopPropagation(); onChange(rules.filter(r => r.id !== rule.id)); }} className="text-slate-400 hover:text-red-500 p-1"><Trash2 className="w-3.5 h-3.5"/></button>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-slate-100 p-4 space-y-4 bg-slate-50/50">
+                  <div>
+                    <label className="text-[10px] text-slate-500 mb-1 block">匹配规则</label>
+                    <input
+                      type="text"
+                      value={rule.pattern}
+                      onChange={e => updateRule(rule.id, r => ({ ...r, pattern: e.target.value }))}
+                      className="w-full px-3 py-1.5 border border-slate-300 rounded text-xs font-mono"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {BOOLEAN_OVERRIDES.map(({ key, label }) => {
+                      const value = rule.overrides[key];
+                      return (
+                        <div key={key}>
+                          <label className="text-[10px] text-slate-500 mb-1 block">{label}</label>
+                          <select
+                            value={value === undefined ? 'inherit' : value ? 'on' : 'off'}
+                            onChange={e => updateOverrides(rule.id, { [key]: e.target.value === 'inherit' ? undefined : e.target.value === 'on' })}
+                            className="w-full px-2 py-1.5 border border-slate-300 rounded text-xs bg-white"
+                          >
+                            <option value="inherit">跟随全局</option>
+                            <option value="on">开启</option>
+                            <option value="off">关闭</option>
+                          </select>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div>
+                    <label className="text-[10px] text-slate-500 mb-1 block">翻译引擎</label>
+                    <select
+                      value={rule.overrides.engineId || ''}
+                      onChange={e => updateOverrides(rule.id, { engineId: e.target.value || undefined })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded text-xs bg-white"
+                    >
+                      <option value="">跟随全局 (按引擎列表顺序)</option>
+                      {engines.map(en => <option key={en.id} value={en.id}>{en.name}{en.isEnabled ? '' : ' (未启用)'}</option>)}
+                    </select>
+                  </div>
+
+                  {scenarios.length > 0 && (
+                    <div>
+                      <label className="text-[10px] text-slate-500 mb-1 block">启用场景 (不选则跟随全局)</label>
+                      <div className="flex flex-wrap gap-2">
+                        {scenarios.map(sc => {
+                          const isOn = rule.overrides.scenarioIds?.includes(sc.id);
+                          return (
+                            <button
+                              key={sc.id}
+                              onClick={() => toggleScenario(rule, sc.id)}
+                              className={`px-2.5 py-1 rounded-full text-xs border transition ${isOn ? 'bg-blue-50 border-blue-200 text-blue-600 font-medium' : 'bg-white border-slate-200 text-slate-500 hover:border-blue-200'}`}
+                            >
+                              {sc.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="text-[10px] text-slate-500 mb-1 block">替换文字颜色</label>
+                    <div className="flex flex-wrap gap-4">
+                      {CATEGORY_LABELS.map(({ category, label }) => {
+                        const color = rule.overrides.styles?.[category]?.color;
+                        return (
+                          <label key={category} className="flex items-center gap-2 text-xs text-slate-600">
+                            <input
+                              type="checkbox"
+                              checked={color !== undefined}
+                              onChange={e => setStyleColor(rule, category, e.target.checked ? '#2563eb' : undefined)}
+                              className="rounded text-blue-600 border-slate-300"
+                            />
+                            {label}
+                            {color !== undefined && (
+                              <input type="color" value={color} onChange={e => setStyleColor(rule, category, e.target.value)} className="w-6 h-6 border border-slate-200 rounded cursor-pointer" />
+                            )}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
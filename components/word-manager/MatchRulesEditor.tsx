@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { WordEntry } from '../../types';
+import { Plus, X } from 'lucide-react';
+
+interface MatchRulesEditorProps {
+  entry: WordEntry;
+  onUpdateEntry: (id: string, patch: Partial<WordEntry>) => void;
+}
+
+const TagInput: React.FC<{ label: string, hint: string, values: string[], tone: 'blue' | 'red', onChange: (values: string[]) => void }> = ({ label, hint, values, tone, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const chipClass = tone === 'blue' ? 'bg-blue-50 text-blue-700 border-blue-100' : 'bg-red-50 text-red-700 border-red-100';
+
+  const commit = () => {
+    const added = draft.split(/[,，;；\s]+/).map(v => v.trim()).filter(v => v && !values.includes(v));
+    if (added.length > 0) onChange([...values, ...added]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex items-start gap-2">
+      <span className="text-[10px] font-bold text-slate-400 uppercase w-10 shrink-0 pt-1" title={hint}>{label}</span>
+      <div className="flex flex-wrap items-center gap-1.5 flex-1">
+        {values.map(v => (
+          <span key={v} className={`inline-flex items-center text-xs px-2 py-0.5 rounded border ${chipClass}`}>
+            {v}
+            <button onClick={() => onChange(values.filter(x => x !== v))} className="ml-1 opacity-60 hover:opacity-100"><X className="w-3 h-3" /></button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+          onBlur={commit}
+          placeholder={hint}
+          className="text-xs px-2 py-0.5 border border-slate-200 rounded outline-none focus:border-blue-400 w-40"
+        />
+        {draft && <button onClick={commit} className="p-0.5 text-slate-400 hover:text-blue-600"><Plus className="w-3.5 h-3.5" /></button>}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 词条的匹配规则：别名 (额外替换的中文) 与排除词 (命中位置落在其中时不替换)
+ */
+export const MatchRulesEditor: React.FC<MatchRulesEditorProps> = ({ entry, onUpdateEntry }) => (
+  <div className="space-y-2" onClick={e => e.stopPropagation()}>
+    <TagInput label="别名" hint="也替换的中文，回车添加" tone="blue" values={entry.aliases || []} onChange={aliases => onUpdateEntry(entry.id, { aliases })} />
+    <TagInput label="排除" hint="在这些词语中不替换" tone="red" values={entry.excludePatterns || []} onChange={excludePatterns => onUpdateEntry(entry.id, { excludePatterns })} />
+  </div>
+);
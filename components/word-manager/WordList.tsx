@@ -1,7 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { WordEntry, WordCategory, MergeStrategyConfig } from '../../types';
-import { PlayCircle, MapPin, ExternalLink, Filter, BarChart2, Star, Youtube, Image as ImageIcon } from 'lucide-react';
+import { WordEntry, WordCategory, MergeStrategyConfig, ExposureStats } from '../../types';
+import { PlayCircle, MapPin, ExternalLink, Filter, BarChart2, Star, Youtube, Image as ImageIcon, SlidersHorizontal, Eye } from 'lucide-react';
+import { getBlockedDefinitions } from '../../utils/matching';
+import { exposureStorage } from '../../utils/storage';
+import { formatExposure, mergeExposureStats } from '../../utils/exposure';
+import { MatchRulesEditor } from './MatchRulesEditor';
 import { playWordAudio, playSentenceAudio } from '../../utils/audio';
 import { browser } from 'wxt/browser';
 
@@ -16,6 +20,7 @@ interface WordListProps {
     searchQuery: string;
     ttsSpeed?: number;
     onOpenDetail?: (word: string) => void;
+    onUpdateEntry?: (id: string, patch: Partial<WordEntry>) => void;
 }
 
 const InfoTag: React.FC<{ text: string, trans: string }> = ({ text, trans }) => (
@@ -26,11 +31,20 @@ const InfoTag: React.FC<{ text: string, trans: string }> = ({ text, trans }) =>
 
 export const WordList: React.FC<WordListProps> = ({ 
     groupedEntries, selectedWords, toggleSelectGroup, isGroupSelected,
-    showConfig, mergeConfig, searchQuery, ttsSpeed = 1.0, onOpenDetail
+    showConfig, mergeConfig, searchQuery, ttsSpeed = 1.0, onOpenDetail, onUpdateEntry
 }) => {
     
     // Image Preview State
     const [previewImage, setPreviewImage] = useState<{ url: string; rect: DOMRect } | null>(null);
+    // 展开匹配规则 (别名 / 排除词) 编辑的分组
+    const [rulesOpenFor, setRulesOpenFor] = useState<string | null>(null);
+    // 浏览中遇到单词的次数
+    const [exposureStats, setExposureStats] = useState<Record<string, ExposureStats>>({});
+
+    useEffect(() => {
+        exposureStorage.getValue().then(v => setExposureStats(v.stats));
+        return exposureStorage.watch(v => v && setExposureStats(v.stats));
+    }, []);
 
     // 统一的新标签页打开逻辑
     const handleWordClick = (word: string) => {
@@ -54,6 +68,12 @@ export const WordList: React.FC<WordListProps> = ({
             const uniqueTranslations = Array.from(new Set(group.map(e => e.translation?.trim()).filter(Boolean)));
             const displayTranslation = uniqueTranslations.join('; ');
             const displayInflections = group.find(e => e.inflections && e.inflections.length > 0)?.inflections;
+            // 单字或虚词释义默认不参与页面匹配，可按词条单独放开
+            const shortMatchEntries = group.filter(e => getBlockedDefinitions(e).length > 0);
+            const blockedDefinitions = Array.from(new Set(shortMatchEntries.flatMap(e => getBlockedDefinitions(e))));
+            const allowShortMatch = shortMatchEntries.length > 0 && shortMatchEntries.every(e => e.allowShortMatch);
+            const ruleCount = group.reduce((sum, e) => sum + (e.aliases?.length || 0) + (e.excludePatterns?.length || 0), 0);
+            const exposure = mergeExposureStats(group.map(e => exposureStats[e.id]));
 
             return (
               <div key={primary.id} className={`bg-white rounded-xl border shadow-sm hover:shadow-md transition-all p-5 flex gap-4 group ${isGroupSelected(group) ? 'border-blue-300 bg-blue-50/10' : 'border-slate-200'}`}>
@@ -98,6 +118,19 @@ export const WordList: React.FC<WordListProps> = ({
                               {group.length > 1 && mergeConfig.strategy === 'by_word' && (<span className="ml-2 text-xs text-amber-700/60 font-normal">({group.length})</span>)}
                             </div>
                           )}
+
+                          {onUpdateEntry && blockedDefinitions.length > 0 && (
+                            <label className="flex items-center text-[11px] text-slate-500 cursor-pointer select-none" title={`释义「${blockedDefinitions.join('、')}」为单字或常见虚词，默认不在网页中替换`} onClick={e => e.stopPropagation()}>
+                              <input type="checkbox" checked={allowShortMatch} onChange={e => shortMatchEntries.forEach(entry => onUpdateEntry(entry.id, { allowShortMatch: e.target.checked }))} className="w-3.5 h-3.5 mr-1 rounded border-slate-300 text-blue-600" />
+                              匹配「{blockedDefinitions.join('、')}」
+                            </label>
+                          )}
+
+                          {onUpdateEntry && (
+                            <button onClick={e => { e.stopPropagation(); setRulesOpenFor(rulesOpenFor === primary.id ? null : primary.id); }} className={`flex items-center text-[11px] px-1.5 py-0.5 rounded border transition ${rulesOpenFor === primary.id || ruleCount > 0 ? 'text-blue-600 border-blue-200 bg-blue-50' : 'text-slate-400 border-transparent hover:border-slate-200'}`} title="设置别名与排除词">
+                              <SlidersHorizontal className="w-3 h-3 mr-1" /> 匹配规则{ruleCount > 0 && ` (${ruleCount})`}
+                            </button>
+                          )}
                       </div>
 
                       <div className="ml-auto sm:ml-0 self-start sm:self-center flex flex-col items-end gap-1.5">
@@ -118,6 +151,12 @@ export const WordList: React.FC<WordListProps> = ({
                                    </div>
                                ) : null}
 
+                               {exposure.lastSeenAt > 0 && (
+                                   <span className="flex items-center whitespace-nowrap" title={`悬停 ${exposure.counts.hover} 次 · 打开气泡 ${exposure.counts.bubble} 次 · 朗读 ${exposure.counts.pronounce} 次 · 快速添加 ${exposure.counts.quickAdd} 次`}>
+                                       <Eye className="w-3 h-3 mr-1"/> {formatExposure(exposure)}
+                                   </span>
+                               )}
+
                                {mergeConfig.showCocaRank && primary.cocaRank && primary.cocaRank > 0 ? (
                                    <span className="flex items-center" title="COCA 词频排名">
                                        <BarChart2 className="w-3 h-3 mr-1"/> #{primary.cocaRank}
@@ -127,6 +166,17 @@ export const WordList: React.FC<WordListProps> = ({
                       </div>
                     </div>
                     
+                    {onUpdateEntry && rulesOpenFor === primary.id && (
+                        <div className="bg-slate-50 border border-slate-100 rounded-lg p-3 space-y-3">
+                            {group.map(entry => (
+                                <div key={entry.id} className="space-y-2">
+                                    {group.length > 1 && <div className="text-[11px] text-slate-500 font-medium">{entry.translation || entry.text}</div>}
+                                    <MatchRulesEditor entry={entry} onUpdateEntry={onUpdateEntry} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Media Row: Image & Video */}
                     {(mergeConfig.showImage || mergeConfig.showVideo) && (primary.image || primary.video) && (
                         <div className="flex gap-4">
@@ -135,6 +135,7 @@ export const DEFAULT_WORD_INTERACTION: WordInteractionConfig = {
   dismissDelay: 300,
   allowMultipleBubbles: false,
   onlineDictUrl: '',
+  selectionLookup: { enabled: true, action: 'DoubleClick', modifier: 'Ctrl' },
 };
 
 export const DEFAULT_PAGE_WIDGET: PageWidgetConfig = {
@@ -177,12 +178,17 @@ export const DEFAULT_PAGE_WIDGET: PageWidgetConfig = {
 
 export const DEFAULT_AUTO_TRANSLATE: AutoTranslateConfig = {
   enabled: true,
+  triggerMode: 'auto',
   bilingualMode: false,
   translateWholePage: false,
   matchInflections: true,
   aggressiveMode: false,
+  englishGloss: false,
+  showGlossTranslation: true,
+  siteMode: 'blacklist',
   blacklist: ['google.com', 'baidu.com'], 
   whitelist: ['nytimes.com', 'medium.com'],
+  siteRules: [],
   ttsSpeed: 1.0,
 };
 
@@ -1,10 +1,19 @@
 import { defineBackground } from 'wxt/sandbox';
-import { browser } from 'wxt/browser';
-import { callTencentTranslation, callNiuTransTranslation, callDeepLTranslation, translateWithEngine } from '../utils/api';
-import { dictionariesStorage } from '../utils/storage';
-import { RichDictionaryResult, DictionaryMeaningCard, PhraseItem, SynonymItem } from '../types';
+import { browser, Menus } from 'wxt/browser';
+import { callTencentTranslation, callNiuTransTranslation, callDeepLTranslation, translateWithEngine, translateBatchWithEngine } from '../utils/api';
+import { dictionariesStorage, scenariosStorage, entriesStorage, autoTranslateConfigStorage } from '../utils/storage';
+import { TranslationCache } from '../utils/translation-cache';
+import { EnginePool } from '../utils/engine-pool';
+import { DefinitionCache, isAggressiveModeUsed } from '../utils/definition-cache';
+import { ExposureLog } from '../utils/exposure';
+import { RichDictionaryResult, DictionaryMeaningCard, PhraseItem, SynonymItem, WordCategory, BackgroundMessage, ContentMessage } from '../types';
 
 export default defineBackground(() => {
+  const translationCache = new TranslationCache();
+  const enginePool = new EnginePool();
+  const definitionCache = new DefinitionCache();
+  const exposureLog = new ExposureLog();
+
   browser.runtime.onInstalled.addListener(() => {
     console.log('ContextLingo Extension Installed');
   });
@@ -18,12 +27,60 @@ export default defineBackground(() => {
     if (command === 'translate-page') {
       browser.tabs.query({ active: true, currentWindow: true }).then((tabs) => {
         if (tabs[0]?.id) {
-          browser.tabs.sendMessage(tabs[0].id, { action: 'TRIGGER_TRANSLATION' });
+          const message: ContentMessage = { action: 'TRIGGER_TRANSLATION' };
+          browser.tabs.sendMessage(tabs[0].id, message);
         }
       });
     }
   });
 
+  // --- Context Menus (选中文本右键菜单) ---
+  const SCENARIO_MENU_PREFIX = 'lingo-scenario:';
+
+  const buildContextMenus = async () => {
+    await browser.contextMenus.removeAll();
+    const contexts: Menus.ContextType[] = ['selection'];
+    browser.contextMenus.create({ id: 'lingo-lookup', title: '查询「%s」', contexts });
+    browser.contextMenus.create({ id: 'lingo-add-want', title: '添加到「想学习」', contexts });
+    browser.contextMenus.create({ id: 'lingo-add-learning', title: '添加到「正在学」', contexts });
+
+    const scenarios = await scenariosStorage.getValue();
+    if (scenarios.length > 0) {
+      browser.contextMenus.create({ id: 'lingo-add-scenario', title: '添加到场景…', contexts });
+      scenarios.forEach(s => {
+        browser.contextMenus.create({ id: `${SCENARIO_MENU_PREFIX}${s.id}`, parentId: 'lingo-add-scenario', title: s.name, contexts });
+      });
+    }
+  };
+
+  // 场景变化可能连续触发重建，串行执行，避免 removeAll 与 create 交错导致重复 id
+  let menuBuild: Promise<void> = Promise.resolve();
+  const rebuildContextMenus = () => {
+    menuBuild = menuBuild
+      .then(buildContextMenus)
+      .catch(e => console.warn('[Background] Context menu build failed', e));
+  };
+
+  rebuildContextMenus();
+  scenariosStorage.watch(() => rebuildContextMenus());
+
+  // 菜单只负责转发，选区语境与查询由内容脚本完成
+  browser.contextMenus.onClicked.addListener((info, tab) => {
+    if (!tab?.id) return;
+    const menuId = String(info.menuItemId);
+    const selectionText = info.selectionText || '';
+    let message: ContentMessage;
+
+    if (menuId === 'lingo-lookup') message = { action: 'CONTEXT_MENU_ACTION', mode: 'lookup', selectionText };
+    else if (menuId === 'lingo-add-want') message = { action: 'CONTEXT_MENU_ACTION', mode: 'add', selectionText, category: WordCategory.WantToLearnWord };
+    else if (menuId === 'lingo-add-learning') message = { action: 'CONTEXT_MENU_ACTION', mode: 'add', selectionText, category: WordCategory.LearningWord };
+    else if (menuId.startsWith(SCENARIO_MENU_PREFIX)) {
+      message = { action: 'CONTEXT_MENU_ACTION', mode: 'add', selectionText, category: WordCategory.WantToLearnWord, scenarioId: menuId.substring(SCENARIO_MENU_PREFIX.length) };
+    } else return;
+
+    browser.tabs.sendMessage(tab.id, message, { frameId: info.frameId ?? 0 }).catch(e => console.warn('[Background] Context menu dispatch failed', e));
+  });
+
   // --- Aggressive Sanitization Helper ---
   const safeString = (input: any): string => {
       if (input === null || input === undefined) return '';
@@ -237,29 +294,133 @@ export default defineBackground(() => {
       return null;
   };
 
-  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // --- 激进匹配释义预取：词条保存后即查询词典，内容脚本匹配时直接读取缓存 ---
+  const syncDefinitionCache = async () => {
+    const config = await autoTranslateConfigStorage.getValue();
+    if (!isAggressiveModeUsed(config)) return;
+    definitionCache.sync(await entriesStorage.getValue(), fetchAndParse).catch(e => console.warn('[Background] Definition cache sync failed', e));
+  };
+
+  syncDefinitionCache();
+  entriesStorage.watch(() => syncDefinitionCache());
+  autoTranslateConfigStorage.watch(() => syncDefinitionCache());
+
+  const toErrorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+  browser.runtime.onMessage.addListener((rawMessage: unknown, sender, sendResponse) => {
+    const message = rawMessage as BackgroundMessage;
     if (message.action === 'TRANSLATE_TEXT') {
       (async () => {
         try {
           // 使用统一的翻译分发器，它已经包含了 google/baidu/deepl 的网页模拟逻辑
-          const text = await translateWithEngine(message.engine, message.text, message.target);
-          sendResponse({ success: true, data: { Response: { TargetText: text } } });
-        } catch (error: any) {
+          // 传入 engines 时按顺序故障切换，否则只使用指定引擎 (两者均经过限速队列)
+          if ('engines' in message) {
+            const { result, engine } = await enginePool.runWithFailover(message.engines, e => translateWithEngine(e, message.text, message.target));
+            sendResponse({ success: true, engineId: engine.id, data: { Response: { TargetText: result } } });
+          } else {
+            const text = await enginePool.run(message.engine, () => translateWithEngine(message.engine, message.text, message.target));
+            sendResponse({ success: true, engineId: message.engine.id, data: { Response: { TargetText: text } } });
+          }
+        } catch (error) {
           console.error("[Background] Translation request failed:", error);
-          sendResponse({ success: false, error: error.message || String(error) });
+          sendResponse({ success: false, error: toErrorMessage(error) });
         }
       })();
       return true; 
     }
 
+    if (message.action === 'TRANSLATE_BATCH') {
+      (async () => {
+        try {
+          // 多段文本一次请求，返回与 texts 一一对应的译文
+          const { result, engine } = await enginePool.runScheduledWithFailover(message.engines, (e, schedule) => translateBatchWithEngine(e, message.texts, message.target, schedule));
+          sendResponse({ success: true, engineId: engine.id, data: result });
+        } catch (error) {
+          console.error("[Background] Batch translation failed:", error);
+          sendResponse({ success: false, error: toErrorMessage(error) });
+        }
+      })();
+      return true;
+    }
+
+    if (message.action === 'GET_CACHED_TRANSLATIONS') {
+      (async () => {
+        try {
+          const data = await translationCache.getBlocks(message.blocks, message.engineIds, message.target);
+          sendResponse({ success: true, data });
+        } catch (error) {
+          sendResponse({ success: false, error: toErrorMessage(error) });
+        }
+      })();
+      return true;
+    }
+
+    if (message.action === 'STORE_CACHED_TRANSLATIONS') {
+      (async () => {
+        try {
+          await translationCache.setMany(message.pairs, message.engineId, message.target);
+          sendResponse({ success: true });
+        } catch (error) {
+          sendResponse({ success: false, error: toErrorMessage(error) });
+        }
+      })();
+      return true;
+    }
+
+    if (message.action === 'GET_TRANSLATION_CACHE_STATS') {
+      (async () => {
+        try {
+          sendResponse({ success: true, data: await translationCache.getStats() });
+        } catch (error) {
+          sendResponse({ success: false, error: toErrorMessage(error) });
+        }
+      })();
+      return true;
+    }
+
+    if (message.action === 'RECORD_EXPOSURE') {
+      (async () => {
+        try {
+          await exposureLog.append(message.events);
+          sendResponse({ success: true });
+        } catch (error) {
+          sendResponse({ success: false, error: toErrorMessage(error) });
+        }
+      })();
+      return true;
+    }
+
+    if (message.action === 'CLEAR_TRANSLATION_CACHE') {
+      (async () => {
+        try {
+          await translationCache.clear();
+          sendResponse({ success: true });
+        } catch (error) {
+          sendResponse({ success: false, error: toErrorMessage(error) });
+        }
+      })();
+      return true;
+    }
+
+    if (message.action === 'GET_ENGINE_COOLDOWNS') {
+      sendResponse({ success: true, data: enginePool.getCooldowns() });
+      return true;
+    }
+
+    if (message.action === 'RESET_ENGINE_COOLDOWN') {
+      enginePool.resetCooldown(message.engineId);
+      sendResponse({ success: true });
+      return true;
+    }
+
     if (message.action === 'LOOKUP_WORD_RICH') {
       (async () => {
         try {
           const result = await fetchAndParse(message.text);
           if (result) sendResponse({ success: true, data: result });
           else sendResponse({ success: false, error: "未找到单词数据" });
-        } catch (error: any) {
-          sendResponse({ success: false, error: error.message || String(error) });
+        } catch (error) {
+          sendResponse({ success: false, error: toErrorMessage(error) });
         }
       })();
       return true;
@@ -274,8 +435,8 @@ export default defineBackground(() => {
                 const mappedEntries = data.data?.entries?.map((item: any) => ({ entry: item.entry, explanation: item.explain })) || [];
                 sendResponse({ success: true, data: mappedEntries });
             } else sendResponse({ success: false, data: [] });
-          } catch (error: any) {
-            sendResponse({ success: false, error: error.message || String(error) });
+          } catch (error) {
+            sendResponse({ success: false, error: toErrorMessage(error) });
           }
       })();
       return true;
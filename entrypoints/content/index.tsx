@@ -1,25 +1,49 @@
 import ReactDOM from 'react-dom/client';
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { PageWidget } from '../../components/PageWidget';
 import { WordBubble } from '../../components/WordBubble';
 import '../../index.css'; 
-import { entriesStorage, pageWidgetConfigStorage, autoTranslateConfigStorage, stylesStorage, originalTextConfigStorage, enginesStorage, interactionConfigStorage } from '../../utils/storage';
-import { WordEntry, PageWidgetConfig, WordInteractionConfig, WordCategory, AutoTranslateConfig, ModifierKey, StyleConfig, OriginalTextConfig } from '../../types';
+import { entriesStorage, pageWidgetConfigStorage, autoTranslateConfigStorage, stylesStorage, originalTextConfigStorage, enginesStorage, interactionConfigStorage, scenariosStorage, siteScenariosStorage, definitionCacheStorage } from '../../utils/storage';
+import { WordEntry, PageWidgetConfig, WordInteractionConfig, WordCategory, AutoTranslateConfig, ModifierKey, StyleConfig, OriginalTextConfig, Scenario, ContentMessage } from '../../types';
 import { defineContentScript } from 'wxt/sandbox';
 import { createShadowRootUi } from 'wxt/client';
-import { findFuzzyMatches, findAggressiveMatches } from '../../utils/matching';
-import { buildReplacementHtml } from '../../utils/dom-builder';
+import { findFuzzyMatches, findAggressiveMatches, getMatchIndex, MatchResult } from '../../utils/matching';
+import { buildReplacementHtml, buildGlossHtml } from '../../utils/dom-builder';
 import { browser } from 'wxt/browser';
 import { preloadVoices, unlockAudio } from '../../utils/audio';
-import { splitTextIntoSentences, normalizeEnglishText } from '../../utils/text-processing';
+import { translateBlocks } from '../../utils/block-translator';
+import { getBatchCharBudget } from '../../utils/api';
+import { DensityController } from '../../utils/density';
+import { resolveSiteSettings, resolveRuleScenarioIds } from '../../utils/site-rules';
+import { resolveActiveScenarioIds, filterEntriesByScenario, mergeScenarioStyles } from '../../utils/scenarios';
+import { ReplacementLayer } from '../../utils/replacement-layer';
+import { ViewportScanner } from '../../utils/viewport-scanner';
+import { isSameLemma } from '../../utils/morphology';
+import { pickBestSense } from '../../utils/sense-disambiguation';
+import { definitionCacheKey } from '../../utils/definition-cache';
+import { ExposureTracker } from '../../utils/exposure';
+import { getSelectionContext, resolveSelection, buildEntryFromSelection, saveSelectionEntry, SelectionContext, extractSentence } from '../../utils/selection-lookup';
+import { buildGlossIndex, findGlossMatches, getShortGloss, isEnglishGlossEnabled, GlossIndex } from '../../utils/english-gloss';
+import { SelectionLookupPopup } from '../../components/SelectionLookupPopup';
+import { ReplacementInspector } from '../../components/ReplacementInspector';
+import { Toast, ToastMessage } from '../../components/ui/Toast';
+import { captureWordContext, readReplacementDetails, ReplacementDetails, SENTENCE_ATTR, SENTENCE_TRANSLATION_ATTR, SENTENCE_OFFSET_ATTR, MATCHED_WORD_ATTR, MATCHER_ATTR, MATCHED_DEFINITION_ATTR, MATCH_SCORE_ATTR } from '../../utils/context-capture';
+import { DEFAULT_WORD_INTERACTION } from '../../constants';
 
 interface ContentOverlayProps {
   initialWidgetConfig: PageWidgetConfig;
   initialEntries: WordEntry[];
   initialInteractionConfig: WordInteractionConfig;
   initialAutoTranslateConfig: AutoTranslateConfig; 
+  initialScenarios: Scenario[];
+  initialSiteScenarios: Record<string, string[]>;
+  subscribeRouteChange: (listener: (url: string) => void) => () => void;
+  exposure: ExposureTracker;
 }
 
+// 路由切换后等待新页面内容渲染完成再统计
+const ROUTE_SETTLE_DELAY = 1000;
+
 interface ActiveBubble {
     id: string; 
     entry: WordEntry;
@@ -32,7 +56,11 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
     initialWidgetConfig, 
     initialEntries, 
     initialInteractionConfig,
-    initialAutoTranslateConfig 
+    initialAutoTranslateConfig,
+    initialScenarios,
+    initialSiteScenarios,
+    subscribeRouteChange,
+    exposure
 }) => {
   const [widgetConfig, setWidgetConfig] = useState(initialWidgetConfig);
   const [interactionConfig, setInteractionConfig] = useState(initialInteractionConfig);
@@ -40,36 +68,100 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
   const [entries, setEntries] = useState(initialEntries);
   const [pageWords, setPageWords] = useState<WordEntry[]>([]);
   const [activeBubbles, setActiveBubbles] = useState<ActiveBubble[]>([]);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const [selectionLookup, setSelectionLookup] = useState<SelectionContext | null>(null);
+  const [scenarios, setScenarios] = useState(initialScenarios);
+  const [siteScenarios, setSiteScenarios] = useState(initialSiteScenarios);
+  const [pageUrl, setPageUrl] = useState(window.location.href);
+  const [routeVersion, setRouteVersion] = useState(0);
+  // 检查模式：点击替换词查看匹配来由，而不是弹出单词气泡
+  const [inspectorEnabled, setInspectorEnabled] = useState(false);
+  const [inspected, setInspected] = useState<{ details: ReplacementDetails, rect: DOMRect } | null>(null);
   
   const showTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const hideTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
   const interactionConfigRef = useRef(interactionConfig);
   const entriesRef = useRef(entries);
+  const inspectorEnabledRef = useRef(inspectorEnabled);
+  // 右键查询得到的临时词条 (尚未保存到词库)
+  const lookupEntries = useRef<Map<string, WordEntry>>(new Map());
   
   useEffect(() => { interactionConfigRef.current = interactionConfig; }, [interactionConfig]);
   useEffect(() => { entriesRef.current = entries; }, [entries]);
+  useEffect(() => { inspectorEnabledRef.current = inspectorEnabled; }, [inspectorEnabled]);
+
+  // 记录新打开的气泡 (仅词库中的词条，不含右键查询的临时词条)
+  const openBubbleIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+      const ids = new Set(activeBubbles.map(b => b.id));
+      activeBubbles.forEach(b => {
+          if (!openBubbleIds.current.has(b.id) && !lookupEntries.current.has(b.entry.id)) exposure.record(b.entry.id, 'bubble');
+      });
+      openBubbleIds.current = ids;
+  }, [activeBubbles]);
 
   useEffect(() => {
     const unsubs = [
         pageWidgetConfigStorage.watch(v => v && setWidgetConfig(v)),
         interactionConfigStorage.watch(v => v && setInteractionConfig(v)),
         entriesStorage.watch(v => v && setEntries(v)),
-        autoTranslateConfigStorage.watch(v => v && setAutoTranslateConfig(v)) 
+        autoTranslateConfigStorage.watch(v => v && setAutoTranslateConfig(v)),
+        scenariosStorage.watch(v => v && setScenarios(v)),
+        siteScenariosStorage.watch(v => v && setSiteScenarios(v))
     ];
     return () => unsubs.forEach(u => u());
   }, []);
 
+  // 当前站点启用的场景：悬浮窗选择 > 站点规则 > 全局设置
+  const host = window.location.hostname;
+  const activeScenarioIds = useMemo(
+      () => resolveActiveScenarioIds(scenarios, resolveRuleScenarioIds(autoTranslateConfig, pageUrl), siteScenarios[host]),
+      [scenarios, autoTranslateConfig, siteScenarios, host, pageUrl]
+  );
+  const scenarioEntries = useMemo(() => filterEntriesByScenario(entries, scenarios, activeScenarioIds), [entries, scenarios, activeScenarioIds]);
+
+  const handleToggleScenario = (id: string) => {
+      const next = new Set(activeScenarioIds);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      if (next.size === 0) return; // 至少保留一个场景
+      siteScenariosStorage.setValue({ ...siteScenarios, [host]: Array.from(next) });
+  };
+
+  const handleResetScenarios = () => {
+      const { [host]: _, ...rest } = siteScenarios;
+      siteScenariosStorage.setValue(rest);
+  };
+
   useEffect(() => {
       const scanRelevant = () => {
           const text = document.body.innerText;
-          const matched = entries.filter(e => {
+          const matched = scenarioEntries.filter(e => {
               const defs = e.translation?.split(/[,;，；/]/) || [];
               return defs.some(d => d.length > 0 && text.includes(d));
           });
           setPageWords(matched);
       };
-      scanRelevant();
-  }, [entries]);
+      if (routeVersion === 0) {
+          scanRelevant();
+          return;
+      }
+      const timer = setTimeout(scanRelevant, ROUTE_SETTLE_DELAY);
+      return () => clearTimeout(timer);
+  }, [scenarioEntries, routeVersion]);
+
+  // 单页应用切换路由：关闭上一页的气泡与弹窗，重新统计本页单词
+  useEffect(() => subscribeRouteChange(url => {
+      hideTimers.current.forEach(timer => clearTimeout(timer));
+      hideTimers.current.clear();
+      if (showTimer.current) clearTimeout(showTimer.current);
+      lookupEntries.current.clear();
+      setActiveBubbles([]);
+      setSelectionLookup(null);
+      setInspected(null);
+      setPageWords([]);
+      setPageUrl(url);
+      setRouteVersion(v => v + 1);
+  }), [subscribeRouteChange]);
 
   useEffect(() => {
       const handleUserInteraction = () => {
@@ -94,7 +186,11 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
       return true;
   };
 
-  const addBubble = (entry: WordEntry, originalText: string, rect: DOMRect, triggerElement: HTMLElement) => {
+  const showToast = (message: string, type: ToastMessage['type'] = 'success') => {
+      setToast({ id: Date.now(), message, type });
+  };
+
+  const addBubble = (entry: WordEntry, originalText: string, rect: DOMRect, triggerElement?: HTMLElement) => {
       const config = interactionConfigRef.current;
       if (hideTimers.current.has(entry.id)) {
           clearTimeout(hideTimers.current.get(entry.id)!);
@@ -124,6 +220,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
 
   useEffect(() => {
      const handleMouseOver = (e: MouseEvent) => {
+         if (inspectorEnabledRef.current) return;
          const target = e.target as HTMLElement;
          const entryEl = target.closest('[data-entry-id]') as HTMLElement;
          if (entryEl) {
@@ -131,6 +228,8 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
              const originalText = entryEl.getAttribute('data-original-text') || '';
              const entry = entriesRef.current.find(w => w.id === id);
              if (entry && id) {
+                 // 在替换词内部的子元素之间移动不重复计数
+                 if (!entryEl.contains(e.relatedTarget as Node)) exposure.record(id, 'hover');
                  if (hideTimers.current.has(id)) {
                      clearTimeout(hideTimers.current.get(id)!);
                      hideTimers.current.delete(id);
@@ -161,6 +260,16 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
          const config = interactionConfigRef.current;
          const target = e.target as HTMLElement;
          const entryEl = target.closest('[data-entry-id]') as HTMLElement;
+
+         if (entryEl && inspectorEnabledRef.current) {
+            if (actionType !== 'Click') return;
+            const details = readReplacementDetails(entryEl);
+            if (details) {
+                e.preventDefault();
+                setInspected({ details, rect: entryEl.getBoundingClientRect() });
+            }
+            return;
+         }
          
          if (entryEl) {
             const id = entryEl.getAttribute('data-entry-id');
@@ -173,6 +282,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
                     addBubble(entry, originalText, entryEl.getBoundingClientRect(), entryEl);
                 } else if (config.quickAddTrigger.action === actionType && checkModifier(e, config.quickAddTrigger.modifier)) {
                     if (actionType === 'RightClick') e.preventDefault();
+                    exposure.record(entry.id, 'quickAdd');
                     handleCaptureAndAdd(entry.id, entryEl);
                 }
             }
@@ -199,20 +309,176 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
   };
 
   const handleCaptureAndAdd = async (id: string, targetEl?: HTMLElement) => {
+      const lookupEntry = lookupEntries.current.get(id);
+      if (lookupEntry) {
+          lookupEntries.current.delete(id);
+          const saved = await saveSelectionEntry({ ...lookupEntry, category: WordCategory.LearningWord, addedAt: Date.now() });
+          setEntries(saved);
+          return;
+      }
+
       const allEntries = await entriesStorage.getValue();
       const targetEntry = allEntries.find(e => e.id === id);
       if (!targetEntry) return;
-      const updates: Partial<WordEntry> = { category: WordCategory.LearningWord, addedAt: Date.now() };
+      const updates: Partial<WordEntry> = { ...captureWordContext(targetEntry, targetEl), category: WordCategory.LearningWord, addedAt: Date.now() };
       const newEntries = allEntries.map(e => e.id === id ? { ...e, ...updates } : e);
       await entriesStorage.setValue(newEntries);
       setEntries(newEntries);
   };
   
+  // 在气泡中修改词条的匹配规则 (别名 / 排除词)，页面在词库变化后重新匹配
+  const handleUpdateEntry = async (id: string, patch: Partial<WordEntry>) => {
+      const allEntries = await entriesStorage.getValue();
+      const newEntries = allEntries.map(e => e.id === id ? { ...e, ...patch } : e);
+      await entriesStorage.setValue(newEntries);
+      setEntries(newEntries);
+      setActiveBubbles(prev => prev.map(b => b.entry.id === id ? { ...b, entry: { ...b.entry, ...patch } } : b));
+  };
+
+  const handleToggleInspector = () => {
+      const next = !inspectorEnabled;
+      setInspectorEnabled(next);
+      setInspected(null);
+      setActiveBubbles([]);
+      showToast(next ? '检查模式已开启，点击页面上的替换词查看匹配详情' : '检查模式已关闭', 'info');
+  };
+
+  // 检查器中一键排除：把被替换的中文加入词条的排除词
+  const handleExcludeMatch = async (entry: WordEntry, pattern: string) => {
+      await handleUpdateEntry(entry.id, { excludePatterns: Array.from(new Set([...(entry.excludePatterns || []), pattern])) });
+      setInspected(null);
+      showToast(`已将「${pattern}」加入 ${entry.text} 的排除词`, 'success');
+  };
+
+  /**
+   * 处理右键菜单：查询选区或直接添加到词库
+   */
+  useEffect(() => {
+      const handleMessage = (rawMessage: unknown) => {
+          const message = rawMessage as ContentMessage;
+          if (message.action !== 'CONTEXT_MENU_ACTION') return;
+          const context = getSelectionContext();
+          if (!context) {
+              showToast('未获取到选中的文本', 'warning');
+              return;
+          }
+
+          (async () => {
+              try {
+                  const engines = await enginesStorage.getValue();
+                  const { matchInflections } = await autoTranslateConfigStorage.getValue();
+                  const resolved = await resolveSelection(context, engines, matchInflections);
+
+                  if (message.mode === 'lookup') {
+                      const headword = resolved.headword.toLowerCase();
+                      const known = entriesRef.current.find(e => e.text.toLowerCase() === headword)
+                          || (matchInflections ? entriesRef.current.find(e => isSameLemma(e.text, headword)) : undefined);
+                      const entry = known || buildEntryFromSelection(resolved, context, WordCategory.WantToLearnWord);
+                      if (!known) lookupEntries.current.set(entry.id, entry);
+                      addBubble(entry, context.text, context.rect || new DOMRect(window.innerWidth / 2, 80, 0, 0));
+                      return;
+                  }
+
+                  const entry = buildEntryFromSelection(resolved, context, message.category, message.scenarioId);
+                  const saved = await saveSelectionEntry(entry);
+                  setEntries(saved);
+                  showToast(`已将 "${entry.text}" 添加到 ${message.category}`, 'success');
+              } catch (e) {
+                  showToast(e instanceof Error && e.message ? e.message : '查询失败，未找到单词信息', 'error');
+              }
+          })();
+      };
+
+      // 查询气泡没有对应的页面元素，点击页面其他位置时关闭
+      const handleMouseDown = (e: MouseEvent) => {
+          if ((e.target as HTMLElement)?.tagName?.toLowerCase() === 'context-lingo-ui') return;
+          if (lookupEntries.current.size === 0) return;
+          const ids = new Set(lookupEntries.current.keys());
+          setActiveBubbles(prev => prev.filter(b => !ids.has(b.id)));
+          lookupEntries.current.clear();
+      };
+
+      browser.runtime.onMessage.addListener(handleMessage);
+      document.addEventListener('mousedown', handleMouseDown);
+      return () => {
+          browser.runtime.onMessage.removeListener(handleMessage);
+          document.removeEventListener('mousedown', handleMouseDown);
+      };
+  }, []);
+
+  /**
+   * 划词查询：双击或 控制键+划选 任意英文单词/短语时打开查词弹窗
+   */
+  useEffect(() => {
+      const isLookupTarget = (e: MouseEvent) => {
+          const target = e.target as HTMLElement;
+          if (!target || target.tagName?.toLowerCase() === 'context-lingo-ui') return false;
+          // 已替换的单词由原有气泡处理，输入框内不干扰编辑
+          if (target.closest('[data-entry-id], input, textarea, [contenteditable=""], [contenteditable="true"]')) return false;
+          return true;
+      };
+
+      const tryOpen = (e: MouseEvent, action: 'DoubleClick' | 'Select') => {
+          const lookup = interactionConfigRef.current.selectionLookup ?? DEFAULT_WORD_INTERACTION.selectionLookup;
+          if (!lookup?.enabled || lookup.action !== action) return;
+          if (!checkModifier(e, lookup.modifier) || !isLookupTarget(e)) return;
+
+          const context = getSelectionContext();
+          if (!context) return;
+          // 仅处理英文单词或不超过 4 个单词的短语
+          if (!/^[A-Za-z][A-Za-z'’\- ]*$/.test(context.text) || context.text.length > 40 || context.text.split(/\s+/).length > 4) return;
+          setSelectionLookup(context);
+      };
+
+      const handleDoubleClick = (e: MouseEvent) => tryOpen(e, 'DoubleClick');
+      const handleMouseUp = (e: MouseEvent) => {
+          if (e.button !== 0) return;
+          // 等待浏览器更新选区
+          setTimeout(() => tryOpen(e, 'Select'), 0);
+      };
+      const handleMouseDown = (e: MouseEvent) => {
+          if ((e.target as HTMLElement)?.tagName?.toLowerCase() === 'context-lingo-ui') return;
+          setSelectionLookup(null);
+      };
+
+      document.addEventListener('dblclick', handleDoubleClick);
+      document.addEventListener('mouseup', handleMouseUp);
+      document.addEventListener('mousedown', handleMouseDown);
+      return () => {
+          document.removeEventListener('dblclick', handleDoubleClick);
+          document.removeEventListener('mouseup', handleMouseUp);
+          document.removeEventListener('mousedown', handleMouseDown);
+      };
+  }, []);
+
   return (
     <div className="reset-shadow-dom" style={{ all: 'initial', fontFamily: 'sans-serif' }}>
-       <PageWidget config={widgetConfig} setConfig={(v) => pageWidgetConfigStorage.setValue(v)} pageWords={pageWords} setPageWords={setPageWords} onBatchAddToLearning={(ids) => ids.forEach(id => handleCaptureAndAdd(id))} />
+       <Toast toast={toast} onClose={() => setToast(null)} />
+       {selectionLookup && (
+           <SelectionLookupPopup
+               context={selectionLookup}
+               config={interactionConfig}
+               ttsSpeed={autoTranslateConfig.ttsSpeed}
+               onClose={() => setSelectionLookup(null)}
+               onSaved={(saved, count, category) => {
+                   setEntries(saved);
+                   setSelectionLookup(null);
+                   showToast(`已添加 ${count} 个释义到 ${category}`, 'success');
+               }}
+           />
+       )}
+       <PageWidget config={widgetConfig} setConfig={(v) => pageWidgetConfigStorage.setValue(v)} pageWords={pageWords} setPageWords={setPageWords} onBatchAddToLearning={(ids) => ids.forEach(id => handleCaptureAndAdd(id))} scenarios={scenarios} activeScenarioIds={activeScenarioIds} hasSiteScenarioOverride={!!siteScenarios[host]?.length} onToggleScenario={handleToggleScenario} onResetScenarios={handleResetScenarios} inspectorEnabled={inspectorEnabled} onToggleInspector={handleToggleInspector} />
+       {inspected && (
+           <ReplacementInspector
+               details={inspected.details}
+               entry={entries.find(e => e.id === inspected.details.entryId)}
+               rect={inspected.rect}
+               onClose={() => setInspected(null)}
+               onExclude={handleExcludeMatch}
+           />
+       )}
        {activeBubbles.map(bubble => (
-           <WordBubble key={bubble.id} entry={bubble.entry} originalText={bubble.originalText} targetRect={bubble.rect} config={interactionConfig} isVisible={true} onMouseEnter={() => handleBubbleMouseEnter(bubble.id)} onMouseLeave={() => scheduleRemoveBubble(bubble.id)} onAddWord={handleCaptureAndAdd} ttsSpeed={autoTranslateConfig.ttsSpeed} />
+           <WordBubble key={bubble.id} entry={bubble.entry} originalText={bubble.originalText} targetRect={bubble.rect} config={interactionConfig} isVisible={true} onMouseEnter={() => handleBubbleMouseEnter(bubble.id)} onMouseLeave={() => scheduleRemoveBubble(bubble.id)} onAddWord={(id) => { if (!lookupEntries.current.has(id)) exposure.record(id, 'quickAdd'); handleCaptureAndAdd(id, bubble.triggerElement); }} onPronounce={lookupEntries.current.has(bubble.entry.id) ? undefined : (id) => exposure.record(id, 'pronounce')} onUpdateEntry={lookupEntries.current.has(bubble.entry.id) ? undefined : handleUpdateEntry} ttsSpeed={autoTranslateConfig.ttsSpeed} />
        ))}
     </div>
   );
@@ -225,23 +491,58 @@ export default defineContentScript({
 
   async main(ctx) {
     preloadVoices();
-    let currentEntries = await entriesStorage.getValue();
+    let allEntries = await entriesStorage.getValue();
+    let currentScenarios = await scenariosStorage.getValue();
+    let siteScenarios = await siteScenariosStorage.getValue();
     let currentWidgetConfig = await pageWidgetConfigStorage.getValue();
-    let currentAutoTranslate = await autoTranslateConfigStorage.getValue();
-    let currentStyles = await stylesStorage.getValue();
+    let rawAutoTranslate = await autoTranslateConfigStorage.getValue();
+    let rawStyles = await stylesStorage.getValue();
     let currentOriginalTextConfig = await originalTextConfigStorage.getValue();
     let currentEngines = await enginesStorage.getValue();
     let currentInteractionConfig = await interactionConfigStorage.getValue();
+    let definitionCache = await definitionCacheStorage.getValue();
+
+    // 站点规则：在全局配置之上叠加当前 URL 命中的覆盖项
+    let siteSettings = resolveSiteSettings(rawAutoTranslate, rawStyles, window.location.href);
+    let currentAutoTranslate = siteSettings.autoTranslate;
+    let currentStyles = siteSettings.styles;
+    const applySiteSettings = () => {
+        siteSettings = resolveSiteSettings(rawAutoTranslate, rawStyles, window.location.href);
+        currentAutoTranslate = siteSettings.autoTranslate;
+        currentStyles = siteSettings.styles;
+        applyScenarios();
+    };
+
+    // 场景：仅匹配当前页面启用场景中的词条
+    let currentEntries = allEntries;
+    const applyScenarios = () => {
+        const activeIds = resolveActiveScenarioIds(currentScenarios, siteSettings.scenarioIds, siteScenarios[window.location.hostname]);
+        currentEntries = filterEntriesByScenario(allEntries, currentScenarios, activeIds);
+        // 词库或场景变化时增量更新匹配索引，避免在首个句子匹配时才构建
+        getMatchIndex(currentEntries);
+    };
+    applyScenarios();
+    const stylesForEntry = (entry: WordEntry) => mergeScenarioStyles(currentStyles, currentScenarios.find(s => s.id === entry.scenarioId));
 
     // 监听配置更新，确保逻辑实时同步
-    autoTranslateConfigStorage.watch(v => { if(v) currentAutoTranslate = v; });
-    entriesStorage.watch(v => { if(v) currentEntries = v; });
+    autoTranslateConfigStorage.watch(v => { if(v) { rawAutoTranslate = v; applySiteSettings(); } });
+    entriesStorage.watch(v => { if(v) { allEntries = v; applyScenarios(); } });
+    scenariosStorage.watch(v => { if(v) { currentScenarios = v; applyScenarios(); } });
+    siteScenariosStorage.watch(v => { if(v) { siteScenarios = v; applyScenarios(); } });
     enginesStorage.watch(v => { if(v) currentEngines = v; });
+    definitionCacheStorage.watch(v => { if(v) definitionCache = v; });
+    stylesStorage.watch(v => { if(v) { rawStyles = v; applySiteSettings(); } });
+
+    const density = new DensityController(() => currentStyles);
+    // 曝光记录：攒批发给 Background，页面隐藏时立即发送
+    const exposure = new ExposureTracker();
+    ctx.addEventListener(document, 'visibilitychange', () => { if (document.visibilityState === 'hidden') exposure.flush(); });
+    const layer = new ReplacementLayer();
 
     /**
      * 应用替换逻辑
      */
-    const applySentenceScopedReplacements = async (block: HTMLElement, sourceSentences: string[], transSentences: string[]) => {
+    const applySentenceScopedReplacements = (block: HTMLElement, sourceSentences: string[], transSentences: string[]) => {
         const textNodes: Text[] = [];
         const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
         let node;
@@ -257,7 +558,7 @@ export default defineContentScript({
             fullText += val;
         });
 
-        const replacements: { start: number, end: number, entry: WordEntry, matchedWord: string }[] = [];
+        const replacements: { start: number, end: number, entry: WordEntry, matchedWord: string, key: string, sentence: string, translation: string, offset: number, match: MatchResult }[] = [];
         let searchCursor = 0;
         
         for (let idx = 0; idx < sourceSentences.length; idx++) {
@@ -269,96 +570,202 @@ export default defineContentScript({
             searchCursor = sentEnd;
 
             // 1. 正常匹配 (含词态)
-            const matches = findFuzzyMatches(sent, currentEntries, trans);
+            // 匹配结果已按分词边界逐处给出，直接使用其位置
+            const matches = findFuzzyMatches(sent, currentEntries, trans, currentAutoTranslate.matchInflections).sort((a, b) => a.index - b.index);
+            const occurrences = new Map<string, number>();
             matches.forEach(m => {
-                let localPos = sent.indexOf(m.text);
-                while (localPos !== -1) {
-                    replacements.push({ start: sentStart + localPos, end: sentStart + localPos + m.text.length, entry: m.entry, matchedWord: m.matchedWord });
-                    localPos = sent.indexOf(m.text, localPos + 1);
-                }
+                const occurrenceKey = `${m.entry.id}|${m.text}`;
+                const occurrence = occurrences.get(occurrenceKey) || 0;
+                occurrences.set(occurrenceKey, occurrence + 1);
+                replacements.push({ start: sentStart + m.index, end: sentStart + m.index + m.text.length, entry: m.entry, matchedWord: m.matchedWord, key: `${m.entry.id}|${m.text}|${sent}|${occurrence}`, sentence: sent, translation: trans, offset: m.index, match: m });
             });
 
             // 2. 激进匹配
             if (currentAutoTranslate.aggressiveMode) {
-                const normTrans = normalizeEnglishText(trans);
-                const potentials = currentEntries.filter(e => normTrans.includes(e.text.toLowerCase()));
+                const formsInTranslation = getMatchIndex(currentEntries).findFormsInTranslation(trans, currentAutoTranslate.matchInflections);
+                // 同一单词的多个义项只取最符合语境的一个，保证 data-entry-id 指向正确的义项
+                const senseGroups = new Map<string, WordEntry[]>();
+                currentEntries.filter(e => formsInTranslation.has(e.id)).forEach(e => {
+                    const key = e.text.toLowerCase();
+                    senseGroups.set(key, [...(senseGroups.get(key) || []), e]);
+                });
+                const potentials = Array.from(senseGroups.values()).map(senses => senses.length === 1
+                    ? senses[0]
+                    : pickBestSense(senses.map(e => ({ entry: e, surface: formsInTranslation.get(e.id)! })), trans));
+                // 词典释义由 Background 在词条保存后预先缓存，尚未缓存的单词本次跳过
                 for (const candidate of potentials) {
-                    const response = await browser.runtime.sendMessage({ action: 'LOOKUP_WORD_RICH', text: candidate.text }) as any;
-                    if (response?.success) {
-                        const aggMatches = findAggressiveMatches(sent, candidate, response.data, trans);
-                        aggMatches.forEach(m => {
-                            let localPos = sent.indexOf(m.text);
-                            while (localPos !== -1) {
-                                replacements.push({ start: sentStart + localPos, end: sentStart + localPos + m.text.length, entry: m.entry, matchedWord: m.matchedWord });
-                                localPos = sent.indexOf(m.text, localPos + 1);
-                            }
-                        });
-                    }
+                    const definitions = definitionCache[definitionCacheKey(candidate.text)]?.definitions;
+                    if (!definitions?.length) continue;
+                    const aggMatches = findAggressiveMatches(sent, candidate, definitions, trans, currentAutoTranslate.matchInflections);
+                    aggMatches.forEach((m, occurrence) => {
+                        replacements.push({ start: sentStart + m.index, end: sentStart + m.index + m.text.length, entry: m.entry, matchedWord: m.matchedWord, key: `${m.entry.id}|${m.text}|${sent}|${occurrence}`, sentence: sent, translation: trans, offset: m.index, match: m });
+                    });
                 }
             }
         }
 
+        // 先去除重叠，再按密度配置筛选，保证计数与实际替换一致
         replacements.sort((a, b) => b.start - a.start);
         let lastStart = Number.MAX_VALUE;
-        replacements.forEach(r => {
-            if (r.end <= lastStart) {
-                const target = nodeMap.find(n => r.start >= n.start && r.end <= n.end);
-                if (target) {
-                    const { node, start } = target;
-                    const val = node.nodeValue || "";
-                    const mid = val.substring(r.start - start, r.end - start);
-                    const span = document.createElement('span');
-                    span.className = 'context-lingo-word';
-                    span.innerHTML = buildReplacementHtml(mid, r.matchedWord, r.entry.category, currentStyles, currentOriginalTextConfig, r.entry.id);
-                    node.parentNode?.insertBefore(document.createTextNode(val.substring(r.end - start)), node.nextSibling);
-                    node.parentNode?.insertBefore(span, node.nextSibling);
-                    node.nodeValue = val.substring(0, r.start - start);
-                    lastStart = r.start;
-                }
+        const nonOverlapping = replacements.filter(r => {
+            if (r.end > lastStart) return false;
+            lastStart = r.start;
+            return true;
+        });
+
+        density.select(nonOverlapping).forEach(r => {
+            const target = nodeMap.find(n => r.start >= n.start && r.end <= n.end);
+            if (target) {
+                const { node, start } = target;
+                const val = node.nodeValue || "";
+                const mid = val.substring(r.start - start, r.end - start);
+                const span = document.createElement('span');
+                span.className = 'context-lingo-word';
+                span.innerHTML = buildReplacementHtml(mid, r.matchedWord, r.entry.category, stylesForEntry(r.entry), currentOriginalTextConfig, r.entry.id);
+                // 记录所在句子，供快速添加时保存语境
+                span.setAttribute(SENTENCE_ATTR, r.sentence);
+                span.setAttribute(SENTENCE_TRANSLATION_ATTR, r.translation);
+                span.setAttribute(SENTENCE_OFFSET_ATTR, String(r.offset));
+                span.setAttribute(MATCHED_WORD_ATTR, r.matchedWord);
+                span.setAttribute(MATCHER_ATTR, r.match.matcher);
+                span.setAttribute(MATCHED_DEFINITION_ATTR, r.match.definition);
+                span.setAttribute(MATCH_SCORE_ATTR, r.match.score.toFixed(2));
+                layer.wrapRange(block, node, r.start - start, r.end - start, span);
+                exposure.recordImpression(r.entry.id, r.key);
             }
         });
     };
 
+    // 已完成翻译的段落数据，用于配置变更后就地重新渲染
+    const translatedBlocks = new Map<HTMLElement, { text: string, sentences: string[], transSentences: string[] }>();
+
+    const renderBlock = (block: HTMLElement, data: { text: string, sentences: string[], transSentences: string[] }) => {
+        layer.setAttribute(block, block, 'data-lingo-source', data.text);
+        layer.setAttribute(block, block, 'data-lingo-translation', data.transSentences.join(' '));
+        if (currentAutoTranslate.bilingualMode) {
+            const div = document.createElement('div');
+            div.className = 'context-lingo-bilingual-block';
+            div.innerText = data.transSentences.join(' ');
+            layer.insertAfter(block, block, div);
+        }
+        applySentenceScopedReplacements(block, data.sentences, data.transSentences);
+        layer.setAttribute(block, block, 'data-context-lingo-scanned', 'true');
+    };
+
+    // 英文页面高亮模式：无需翻译引擎，直接在原文中标记词库中的单词
+    const glossedBlocks = new Set<HTMLElement>();
+    let glossIndex: GlossIndex | null = null;
+
+    const glossBlock = (block: HTMLElement, text: string) => {
+        if (!glossIndex) glossIndex = buildGlossIndex(currentEntries, currentAutoTranslate.matchInflections);
+        const index = glossIndex;
+
+        const textNodes: Text[] = [];
+        const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+        let node;
+        while(node = walker.nextNode()) {
+            if (!node.parentElement?.closest('.context-lingo-wrapper')) textNodes.push(node as Text);
+        }
+
+        const full = block.textContent || '';
+        let cursor = 0;
+        textNodes.forEach(n => {
+            const val = n.nodeValue || '';
+            const nodeStart = full.indexOf(val, cursor);
+            if (nodeStart !== -1) cursor = nodeStart + val.length;
+
+            // 从后往前拆分，保证前面的偏移量不变
+            findGlossMatches(val, index).reverse().forEach(m => {
+                const span = document.createElement('span');
+                span.className = 'context-lingo-word';
+                span.innerHTML = buildGlossHtml(m.word, currentAutoTranslate.showGlossTranslation === false ? '' : getShortGloss(m.entry), m.entry.category, stylesForEntry(m.entry), currentOriginalTextConfig, m.entry.id);
+                if (nodeStart !== -1) {
+                    // 原文即英文，句子与"译文"相同，供快速添加时保存语境
+                    const { sentence, offset } = extractSentence(full, nodeStart + m.start, nodeStart + m.end);
+                    span.setAttribute(SENTENCE_ATTR, sentence);
+                    span.setAttribute(SENTENCE_TRANSLATION_ATTR, sentence);
+                    span.setAttribute(SENTENCE_OFFSET_ATTR, String(offset));
+                }
+                span.setAttribute(MATCHED_WORD_ATTR, m.word);
+                span.setAttribute(MATCHER_ATTR, 'gloss');
+                layer.wrapRange(block, n, m.start, m.end, span);
+                exposure.recordImpression(m.entry.id, `${m.entry.id}|${val}|${m.start}`);
+            });
+        });
+
+        layer.setAttribute(block, block, 'data-lingo-source', text);
+        layer.setAttribute(block, block, 'data-lingo-translation', text);
+        layer.setAttribute(block, block, 'data-context-lingo-scanned', 'true');
+        glossedBlocks.add(block);
+    };
+
     class TranslationScheduler {
-        private buffer: { block: HTMLElement, text: string }[] = [];
+        private buffer: { block: HTMLElement, text: string, isVisible: boolean }[] = [];
         private isProcessing = false;
-        add(block: HTMLElement) {
+        clear() {
+            this.buffer = [];
+        }
+        get pendingCount() {
+            return this.buffer.length;
+        }
+        add(block: HTMLElement, isVisible = false) {
+            if (!block.isConnected || block.hasAttribute('data-context-lingo-scanned')) return;
             const text = block.innerText?.trim();
-            // 长度限制和中文字符检测
-            if (!text || text.length < 5 || !/[\u4e00-\u9fa5]/.test(text)) return;
+            if (!text || text.length < 5) return;
+            // 英文段落走高亮模式，不占用翻译引擎
+            if (!/[\u4e00-\u9fa5]/.test(text)) {
+                if (isEnglishGlossEnabled(currentAutoTranslate) && /[A-Za-z]{2,}/.test(text)) glossBlock(block, text);
+                return;
+            }
             
             // 排除含有大量标点的干扰项（如导航条）
             if ((text.match(/[\/|\\·•]/g) || []).length > 3 && text.length < 20) return;
 
-            block.setAttribute('data-context-lingo-scanned', 'pending');
-            this.buffer.push({ block, text });
+            layer.setAttribute(block, block, 'data-context-lingo-scanned', 'pending');
+            density.registerBlock();
+            this.buffer.push({ block, text, isVisible });
             this.flush();
         }
         private async flush() {
             if (this.isProcessing || this.buffer.length === 0) return;
             this.isProcessing = true;
-            const batch = this.buffer.splice(0, 10);
-            const engine = currentEngines.find(e => e.isEnabled);
+            // 屏幕内的段落优先翻译 (稳定排序，保持原有先后)
+            this.buffer.sort((a, b) => Number(b.isVisible) - Number(a.isVisible));
+            // 引擎优先级链：站点规则指定的引擎在前，其余按设置页中的排列顺序
+            const enabled = currentEngines.filter(e => e.isEnabled);
+            const preferred = siteSettings.engineId ? enabled.find(e => e.id === siteSettings.engineId) : undefined;
+            const engineChain = preferred ? [preferred, ...enabled.filter(e => e !== preferred)] : enabled;
+            const engine = engineChain[0];
             if (!engine) { this.isProcessing = false; return; }
-            
-            for (const item of batch) {
-                try {
-                    const sentences = splitTextIntoSentences(item.text);
-                    const response = await browser.runtime.sendMessage({ action: 'TRANSLATE_TEXT', engine, text: sentences.join(' ||| '), target: 'en' });
-                    if (response.success) {
-                        const transSentences = response.data.Response.TargetText.split(/\s*\|\|\|\s*/);
-                        item.block.setAttribute('data-lingo-source', item.text);
-                        item.block.setAttribute('data-lingo-translation', transSentences.join(' '));
-                        if (currentAutoTranslate.bilingualMode) {
-                            const div = document.createElement('div');
-                            div.className = 'context-lingo-bilingual-block';
-                            div.innerText = transSentences.join(' ');
-                            item.block.after(div);
-                        }
-                        await applySentenceScopedReplacements(item.block, sentences, transSentences);
-                        item.block.setAttribute('data-context-lingo-scanned', 'true');
-                    }
-                } catch (e) { console.error("Translation Error", e); }
+
+            // 按首选引擎的字符预算打包多个段落，一次请求完成翻译
+            const budget = getBatchCharBudget(engine);
+            let count = 0;
+            let size = 0;
+            while (count < this.buffer.length && (count === 0 || size + this.buffer[count].text.length <= budget)) {
+                size += this.buffer[count].text.length;
+                count++;
+            }
+            const batch = this.buffer.splice(0, count);
+            // 未能翻译的段落撤销 pending 标记，之后重新扫描到时可以重试
+            const release = (block: HTMLElement) => {
+                density.unregisterBlock();
+                layer.restoreBlock(block);
+            };
+
+            try {
+                const results = await translateBlocks(engineChain, batch.map(item => item.text), 'en');
+                for (let i = 0; i < batch.length; i++) {
+                    // 翻译过程中用户可能已通过快捷键关闭替换
+                    if (!isTranslationActive) break;
+                    const data = results[i];
+                    if (!data || !batch[i].block.isConnected) { release(batch[i].block); continue; }
+                    translatedBlocks.set(batch[i].block, data);
+                    renderBlock(batch[i].block, data);
+                }
+            } catch (e) {
+                console.error("Translation Error", e);
+                if (isTranslationActive) batch.forEach(item => release(item.block));
             }
             this.isProcessing = false;
             if (this.buffer.length > 0) this.flush();
@@ -366,46 +773,177 @@ export default defineContentScript({
     }
 
     const scheduler = new TranslationScheduler();
-    const scan = () => {
+
+    const getMainContainer = (): HTMLElement => {
         // 定义主体内容的优先容器
         const mainSelectors = ['main', 'article', '#main', '.main', '#content', '.content', '.article', '.post-content'];
-        const mainContainer = !currentAutoTranslate.translateWholePage 
-            ? document.querySelector(mainSelectors.join(',')) || document.body 
+        return !currentAutoTranslate.translateWholePage 
+            ? document.querySelector<HTMLElement>(mainSelectors.join(',')) || document.body 
             : document.body;
+    };
 
-        const walker = document.createTreeWalker(mainContainer, NodeFilter.SHOW_ELEMENT, {
-            acceptNode: (n: any) => {
-                const tagName = n.tagName.toUpperCase();
-                // 1. 基础剔除标签
-                if (['SCRIPT','STYLE','NOSCRIPT','IFRAME','CANVAS','VIDEO','AUDIO','BUTTON','INPUT','TEXTAREA','SELECT'].includes(tagName)) return NodeFilter.FILTER_REJECT;
-                
-                // 2. 内部 UI 剔除
-                if (n.hasAttribute('data-context-lingo-scanned') || n.closest('[data-context-lingo-container]')) return NodeFilter.FILTER_REJECT;
-                
-                // 3. 结构性过滤：非全页扫描时剔除干扰容器
-                if (!currentAutoTranslate.translateWholePage) {
-                    if (['NAV', 'HEADER', 'FOOTER', 'ASIDE'].includes(tagName)) return NodeFilter.FILTER_REJECT;
-                    // 额外检测 class 和 id 中包含导航词汇的容器
-                    const identity = (n.id + n.className).toLowerCase();
-                    if (['nav', 'menu', 'sidebar', 'header', 'footer', 'toolbar', 'breadcrumb'].some(word => identity.includes(word))) return NodeFilter.FILTER_REJECT;
-                    // 排除被以上标签包裹的子孙元素
-                    if (n.closest('nav, header, footer, aside')) return NodeFilter.FILTER_REJECT;
-                }
+    const acceptBlock = (n: any) => {
+        const tagName = n.tagName.toUpperCase();
+        // 1. 基础剔除标签
+        if (['SCRIPT','STYLE','NOSCRIPT','IFRAME','CANVAS','VIDEO','AUDIO','BUTTON','INPUT','TEXTAREA','SELECT'].includes(tagName)) return NodeFilter.FILTER_REJECT;
+        
+        // 2. 内部 UI 剔除
+        if (n.hasAttribute('data-context-lingo-scanned') || n.closest('[data-context-lingo-container]') || n.classList.contains('context-lingo-bilingual-block')) return NodeFilter.FILTER_REJECT;
+        
+        // 3. 结构性过滤：非全页扫描时剔除干扰容器
+        if (!currentAutoTranslate.translateWholePage) {
+            if (['NAV', 'HEADER', 'FOOTER', 'ASIDE'].includes(tagName)) return NodeFilter.FILTER_REJECT;
+            // 额外检测 class 和 id 中包含导航词汇的容器
+            const identity = (n.id + n.className).toLowerCase();
+            if (['nav', 'menu', 'sidebar', 'header', 'footer', 'toolbar', 'breadcrumb'].some(word => identity.includes(word))) return NodeFilter.FILTER_REJECT;
+            // 排除被以上标签包裹的子孙元素
+            if (n.closest('nav, header, footer, aside')) return NodeFilter.FILTER_REJECT;
+        }
+
+        // 4. 接受文本容器标签
+        const textContainers = ['P','DIV','LI','ARTICLE','SECTION','BLOCKQUOTE','H1','H2','H3','H4','H5','H6'];
+        return textContainers.includes(tagName) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+    };
 
-                // 4. 接受文本容器标签
-                const textContainers = ['P','DIV','LI','ARTICLE','SECTION','BLOCKQUOTE','H1','H2','H3','H4','H5','H6'];
-                return textContainers.includes(tagName) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+    /**
+     * 在子树中查找待翻译的段落，子树包含主体容器时从主体容器开始
+     */
+    const collectBlocks = (root: HTMLElement): HTMLElement[] => {
+        const mainContainer = getMainContainer();
+        const blocks: HTMLElement[] = [];
+        if (root.contains(mainContainer)) {
+            root = mainContainer;
+        } else {
+            if (!mainContainer.contains(root)) return blocks;
+            // 新增节点位于已处理的段落或内部 UI 中 (如替换产生的 span)
+            if (root.closest('[data-context-lingo-scanned], [data-context-lingo-container], .context-lingo-wrapper')) return blocks;
+            let ancestor = root.parentElement;
+            while (ancestor && ancestor !== mainContainer) {
+                if (acceptBlock(ancestor) === NodeFilter.FILTER_REJECT) return blocks;
+                ancestor = ancestor.parentElement;
             }
-        });
-        while(walker.nextNode()) scheduler.add(walker.currentNode as HTMLElement);
+            const verdict = acceptBlock(root);
+            if (verdict === NodeFilter.FILTER_REJECT) return blocks;
+            if (verdict === NodeFilter.FILTER_ACCEPT) blocks.push(root);
+        }
+
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, { acceptNode: acceptBlock });
+        while(walker.nextNode()) blocks.push(walker.currentNode as HTMLElement);
+        return blocks;
+    };
+
+    const scanner = new ViewportScanner({
+        collect: collectBlocks,
+        onBlocks: blocks => blocks.forEach(({ block, isVisible }) => scheduler.add(block, isVisible))
+    });
+
+    let isTranslationActive = false;
+
+    // 站点规则禁用时只跳过翻译与替换，浮层、划词查询与右键菜单仍然可用；
+    // 单页应用切换到允许的路由后再由路由监听启动
+    const startTranslation = () => {
+        if (isTranslationActive || !siteSettings.allowed) return;
+        isTranslationActive = true;
+        scanner.start();
+    };
+
+    let rerenderTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * 撤销页面上的所有替换，恢复原始文本节点
+     */
+    const stopTranslation = () => {
+        if (!isTranslationActive) return;
+        isTranslationActive = false;
+        scanner.stop();
+        scheduler.clear();
+        density.reset();
+        if (rerenderTimer) clearTimeout(rerenderTimer);
+        translatedBlocks.clear();
+        glossedBlocks.clear();
+        layer.restoreAll();
     };
 
-    const hostname = window.location.hostname;
-    if (currentAutoTranslate.blacklist.some(d => hostname.includes(d))) return;
-    if (currentAutoTranslate.enabled) {
-        setTimeout(scan, 1500);
-        const obs = new MutationObserver(() => scan());
-        obs.observe(document.body, { childList: true, subtree: true });
+    /**
+     * 配置变更后，使用已缓存的译文逐段还原并重新渲染，无需刷新页面
+     */
+    const rerenderAll = () => {
+        density.reset();
+        const blocks = Array.from(translatedBlocks.entries());
+        for (let i = 0; i < blocks.length + scheduler.pendingCount; i++) density.registerBlock();
+
+        for (const [block, data] of blocks) {
+            if (!isTranslationActive) return;
+            layer.restoreBlock(block);
+            if (!block.isConnected) { translatedBlocks.delete(block); density.unregisterBlock(); continue; }
+            // 先标记为处理中，避免 MutationObserver 将其当作新段落重复翻译
+            layer.setAttribute(block, block, 'data-context-lingo-scanned', 'pending');
+            renderBlock(block, data);
+        }
+
+        for (const block of Array.from(glossedBlocks)) {
+            if (!isTranslationActive) return;
+            const text = block.getAttribute('data-lingo-source') || '';
+            layer.restoreBlock(block);
+            glossedBlocks.delete(block);
+            if (!block.isConnected || !isEnglishGlossEnabled(currentAutoTranslate)) continue;
+            glossBlock(block, text);
+        }
+    };
+    const scheduleRerender = () => {
+        if (!isTranslationActive || (translatedBlocks.size === 0 && glossedBlocks.size === 0)) return;
+        if (rerenderTimer) clearTimeout(rerenderTimer);
+        rerenderTimer = setTimeout(rerenderAll, 300);
+    };
+
+    autoTranslateConfigStorage.watch(() => { glossIndex = null; scheduleRerender(); });
+    stylesStorage.watch(() => scheduleRerender());
+    originalTextConfigStorage.watch(v => { if (v) { currentOriginalTextConfig = v; scheduleRerender(); } });
+    entriesStorage.watch(() => { glossIndex = null; scheduleRerender(); });
+    scenariosStorage.watch(() => { glossIndex = null; scheduleRerender(); });
+    siteScenariosStorage.watch(() => { glossIndex = null; scheduleRerender(); });
+
+    // 单页应用通过 history API 切换路由时内容脚本不会重新加载：
+    // 还原上一页的替换，按新地址重新匹配站点规则后重新扫描
+    const routeListeners = new Set<(url: string) => void>();
+    const toRoute = (url: URL) => url.origin + url.pathname + url.search;
+    let currentRoute = toRoute(new URL(window.location.href));
+    let routeTimer: ReturnType<typeof setTimeout> | null = null;
+    ctx.addEventListener(window, 'wxt:locationchange', ({ newUrl }) => {
+        const route = toRoute(newUrl);
+        if (route === currentRoute) return; // 仅锚点变化
+        currentRoute = route;
+        exposure.resetImpressions();
+
+        const wasActive = isTranslationActive;
+        stopTranslation();
+        if (routeTimer) clearTimeout(routeTimer);
+        applySiteSettings();
+        glossIndex = null;
+        routeListeners.forEach(listener => listener(newUrl.href));
+
+        if (!siteSettings.allowed) return;
+        if (wasActive || (currentAutoTranslate.enabled && currentAutoTranslate.triggerMode !== 'manual')) {
+            routeTimer = setTimeout(startTranslation, ROUTE_SETTLE_DELAY);
+        }
+    });
+    const subscribeRouteChange = (listener: (url: string) => void) => {
+        routeListeners.add(listener);
+        return () => { routeListeners.delete(listener); };
+    };
+
+    // Alt+T (translate-page 命令) 在开启/关闭之间切换
+    browser.runtime.onMessage.addListener((rawMessage: unknown) => {
+        const message = rawMessage as ContentMessage;
+        if (message?.action === 'TRIGGER_TRANSLATION') {
+            if (isTranslationActive) stopTranslation();
+            else startTranslation();
+        }
+    });
+
+    // 手动模式下不自动扫描，等待快捷键触发
+    if (currentAutoTranslate.enabled && currentAutoTranslate.triggerMode !== 'manual') {
+        setTimeout(startTranslation, 1500);
     }
 
     await createShadowRootUi(ctx, {
@@ -416,7 +954,7 @@ export default defineContentScript({
         wrapper.id = 'context-lingo-app-root';
         container.append(wrapper);
         const root = ReactDOM.createRoot(wrapper);
-        root.render(<React.StrictMode><ContentOverlay initialWidgetConfig={currentWidgetConfig} initialEntries={currentEntries} initialInteractionConfig={currentInteractionConfig} initialAutoTranslateConfig={currentAutoTranslate} /></React.StrictMode>);
+        root.render(<React.StrictMode><ContentOverlay initialWidgetConfig={currentWidgetConfig} initialEntries={allEntries} initialInteractionConfig={currentInteractionConfig} initialAutoTranslateConfig={currentAutoTranslate} initialScenarios={currentScenarios} initialSiteScenarios={siteScenarios} subscribeRouteChange={subscribeRouteChange} exposure={exposure} /></React.StrictMode>);
         return root;
       },
       onRemove: (root) => root?.unmount(),
@@ -0,0 +1,211 @@
+import { WordCategory, WordEntry } from "../types";
+import { findFuzzyMatches, MatchIndex } from "../utils/matching";
+
+/**
+ * 匹配回归语料：收录容易误匹配的句子，修改匹配逻辑后运行 npm test 自检
+ */
+
+interface MatchingCorpusCase {
+    name: string;
+    sentence: string;
+    translation: string;
+    entries: WordEntry[];
+    expected: string[]; // 期望被替换的中文，按在句中出现的顺序
+    matchInflections?: boolean; // 默认开启
+}
+
+const entry = (id: string, text: string, translation: string, extra: Partial<WordEntry> = {}): WordEntry => ({
+    id: `corpus-${id}`,
+    text,
+    translation,
+    category: WordCategory.LearningWord,
+    addedAt: 0,
+    ...extra
+});
+
+const MATCHING_CORPUS: MatchingCorpusCase[] = [
+    {
+        name: '单字释义默认不匹配',
+        sentence: '我和你都喜欢和平。',
+        translation: 'You and I both love peace.',
+        entries: [entry('and', 'and', '和')],
+        expected: []
+    },
+    {
+        name: '双字词不被拆开',
+        sentence: '我和你都喜欢和平。',
+        translation: 'You and I both love peace.',
+        entries: [entry('and', 'and', '和'), entry('peace', 'peace', '和平')],
+        expected: ['和平']
+    },
+    {
+        name: '"是" 等虚词不匹配',
+        sentence: '学习是一种乐趣。',
+        translation: 'Learning is a pleasure.',
+        entries: [entry('be', 'be', '是', { inflections: ['is', 'are', 'was'] })],
+        expected: []
+    },
+    {
+        name: '允许单字后只匹配独立成词的位置',
+        sentence: '我在书店买了一本书。',
+        translation: 'I bought a book at the bookstore.',
+        entries: [entry('book', 'book', '书', { allowShortMatch: true })],
+        expected: ['书']
+    },
+    {
+        name: '释义跨越两个词时不匹配',
+        sentence: '这家超市场地很大。',
+        translation: 'This supermarket has a large market space.',
+        entries: [entry('market', 'market', '市场')],
+        expected: []
+    },
+    {
+        name: '多字虚词默认不匹配',
+        sentence: '因为下雨，我们没有出门。',
+        translation: 'Because it rained, we did not go out.',
+        entries: [entry('because', 'because', '因为')],
+        expected: []
+    },
+    {
+        name: '词条允许后匹配多字虚词',
+        sentence: '因为下雨，我们没有出门。',
+        translation: 'Because it rained, we did not go out.',
+        entries: [entry('because', 'because', '因为', { allowShortMatch: true })],
+        expected: ['因为']
+    },
+    {
+        name: '词态出现在译文中',
+        sentence: '经济发展很快。',
+        translation: 'The economy develops quickly.',
+        entries: [entry('develop', 'develop', '发展', { inflections: ['develops', 'developed', 'developing'] })],
+        expected: ['发展']
+    },
+    {
+        name: '译文中没有该词时不匹配',
+        sentence: '我想预订一张去上海的机票。',
+        translation: 'I would like to book a ticket to Shanghai.',
+        entries: [entry('reserve', 'reserve', '预订')],
+        expected: []
+    },
+    {
+        name: '同一句中多处命中，单字不拆开词语',
+        sentence: '我要去银行取钱，银行就在人行道旁边。',
+        translation: 'I am going to the bank to get money; the bank is in line with the sidewalk.',
+        entries: [entry('bank', 'bank', '银行'), entry('line', 'line', '行', { allowShortMatch: true })],
+        expected: ['银行', '银行']
+    },
+    {
+        name: '不规则动词变形',
+        sentence: '她昨天购买了一台电脑。',
+        translation: 'She bought a computer yesterday.',
+        entries: [entry('buy', 'buy', '购买')],
+        expected: ['购买']
+    },
+    {
+        name: '双写辅音与英式拼写',
+        sentence: '他们停止讨论，开始欣赏秋天的颜色。',
+        translation: 'They stopped talking and began to admire the colours of autumn.',
+        entries: [entry('stop', 'stop', '停止'), entry('color', 'color', '颜色')],
+        expected: ['停止', '颜色']
+    },
+    {
+        name: '重音在前的动词不双写辅音',
+        sentence: '他们上周参观了博物馆。',
+        translation: 'They visited the museum last week.',
+        entries: [entry('visit', 'visit', '参观')],
+        expected: ['参观']
+    },
+    {
+        name: '不把 -er 名词当作动词变形',
+        sentence: '这台机器使用起来很简单，但用户需要培训。',
+        translation: 'This machine is simple, but every user needs training.',
+        entries: [entry('use', 'use', '使用')],
+        expected: []
+    },
+    {
+        name: '关闭词态匹配时只认原形',
+        sentence: '她昨天购买了一台电脑。',
+        translation: 'She bought a computer yesterday.',
+        entries: [entry('buy', 'buy', '购买')],
+        expected: [],
+        matchInflections: false
+    },
+    {
+        name: '短语首词变形',
+        sentence: '我们一直很期待这个假期。',
+        translation: 'We have always looked forward to this holiday.',
+        entries: [entry('look-forward-to', 'look forward to', '期待')],
+        expected: ['期待']
+    },
+    {
+        name: '可分离短语动词',
+        sentence: '离开前请把灯关掉。',
+        translation: 'Please turn the lights off before leaving.',
+        entries: [entry('turn-off', 'turn off', '关掉')],
+        expected: ['关掉']
+    },
+    {
+        name: '短语不完整时不匹配',
+        sentence: '她利用了这个机会。',
+        translation: 'She took the chance.',
+        entries: [entry('take-advantage-of', 'take advantage of', '利用')],
+        expected: []
+    },
+    {
+        name: '多义项按词性消歧 (名词)',
+        sentence: '这本书的预订量很高。',
+        translation: 'The book has a high pre-order volume.',
+        entries: [entry('book-v', 'book', '预订', { partOfSpeech: 'v.' }), entry('book-n', 'book', '书', { partOfSpeech: 'n.' })],
+        expected: []
+    },
+    {
+        name: '多义项按词性消歧 (动词)',
+        sentence: '我想预订一张去上海的机票。',
+        translation: 'I want to book a ticket to Shanghai.',
+        entries: [entry('book-v', 'book', '预订', { partOfSpeech: 'v.' }), entry('book-n', 'book', '书', { partOfSpeech: 'n.' })],
+        expected: ['预订']
+    },
+    {
+        name: '别名参与匹配',
+        sentence: '我已经在网上订票了。',
+        translation: 'I have already booked the tickets online.',
+        entries: [entry('book', 'book', '预订', { aliases: ['订票'] })],
+        expected: ['订票']
+    },
+    {
+        name: '排除词内不替换',
+        sentence: '政府推进市场化改革，市场反应积极。',
+        translation: 'The government pushed market-oriented reform, and the market reacted positively.',
+        entries: [entry('market', 'market', '市场', { excludePatterns: ['市场化'] })],
+        expected: ['市场']
+    },
+    {
+        name: '繁体页面匹配简体释义',
+        sentence: '我想預訂一張去上海的機票。',
+        translation: 'I would like to book a ticket to Shanghai.',
+        entries: [entry('book', 'book', '预订')],
+        expected: ['預訂']
+    },
+    {
+        name: '简体页面不做繁简词语转换',
+        sentence: '他解出了这个方程式，然后看了一部影片。',
+        translation: 'He solved the equation in the program and then watched a video.',
+        entries: [entry('program', 'program', '程序'), entry('video', 'video', '视频')],
+        expected: []
+    }
+];
+
+// 每个用例使用独立的索引，不经过内容脚本 / 设置页共享的索引
+const failures = MATCHING_CORPUS.filter(testCase => {
+    const index = new MatchIndex();
+    index.update(testCase.entries);
+    const actual = findFuzzyMatches(testCase.sentence, testCase.entries, testCase.translation, testCase.matchInflections ?? true, index)
+        .sort((a, b) => a.index - b.index)
+        .map(m => m.text);
+    const passed = actual.length === testCase.expected.length && actual.every((t, i) => t === testCase.expected[i]);
+    console.log(`${passed ? '✓' : '✗'} ${testCase.name}${passed ? '' : `  期望 [${testCase.expected.join(', ')}] 实际 [${actual.join(', ')}]`}`);
+    return !passed;
+});
+
+console.log(`\n通过 ${MATCHING_CORPUS.length - failures.length} / ${MATCHING_CORPUS.length}`);
+if (failures.length > 0) throw new Error(`${failures.length} 个匹配用例未通过`);
@@ -0,0 +1,65 @@
+import { inflect, toLemma } from "../utils/morphology";
+
+/**
+ * 词形回归语料：规则生成的变形与还原结果，修改 morphology 后运行 npm test 自检
+ */
+
+interface InflectCase {
+    lemma: string;
+    partOfSpeech?: string;
+    includes: string[]; // 必须生成的变形
+    excludes: string[]; // 不应生成的错误写法
+}
+
+const INFLECT_CASES: InflectCase[] = [
+    { lemma: 'use', includes: ['uses', 'used', 'using'], excludes: ['user'] },
+    { lemma: 'make', includes: ['made', 'makes', 'making'], excludes: ['maker'] },
+    { lemma: 'run', includes: ['ran', 'running'], excludes: ['runner'] },
+    { lemma: 'box', includes: ['boxes', 'boxed'], excludes: ['boxer'] },
+    { lemma: 'city', includes: ['cities'], excludes: ['citier'] },
+    { lemma: 'visit', includes: ['visited', 'visiting'], excludes: ['visitted', 'visitting'] },
+    { lemma: 'offer', includes: ['offered', 'offering'], excludes: ['offerred', 'offerring'] },
+    { lemma: 'color', includes: ['colored', 'coloring', 'colouring'], excludes: ['colorred', 'colorring'] },
+    { lemma: 'begin', includes: ['began', 'begun', 'beginning'], excludes: ['begining'] },
+    { lemma: 'prefer', includes: ['preferred', 'preferring'], excludes: ['prefered'] },
+    { lemma: 'happy', includes: ['happier', 'happiest'], excludes: ['happies', 'happying', 'happied'] },
+    { lemma: 'panic', includes: ['panicked', 'panicking'], excludes: ['paniced', 'panicing'] },
+    { lemma: 'stop', includes: ['stopped', 'stopping'], excludes: ['stoped'] },
+    { lemma: 'travel', includes: ['traveled', 'travelled'], excludes: [] },
+    { lemma: 'big', includes: ['bigger', 'biggest'], excludes: ['bigs'] },
+    { lemma: 'clean', includes: ['cleaned', 'cleaner'], excludes: [] },
+    { lemma: 'brisk', partOfSpeech: 'adj.', includes: ['brisker'], excludes: ['brisks'] },
+    { lemma: 'teach', partOfSpeech: 'v.', includes: ['taught', 'teaches'], excludes: ['teacher'] },
+    { lemma: 'photo', includes: ['photos'], excludes: ['photoes'] },
+    { lemma: 'potato', includes: ['potatoes'], excludes: [] },
+    { lemma: 'bus', includes: ['buses'], excludes: ['buss'] }
+];
+
+const LEMMA_CASES: [string, string][] = [
+    ['died', 'die'], ['tied', 'tie'], ['dying', 'die'], ['studied', 'study'], ['visited', 'visit'],
+    ['beginning', 'begin'], ['panicked', 'panic'], ['stopped', 'stop'], ['happier', 'happy'], ['bigger', 'big'],
+    ['used', 'use'], ['aged', 'age'], ['owed', 'owe'], ['using', 'use'], ['added', 'add'],
+    ['buses', 'bus'], ['gases', 'gas'], ['uses', 'use'], ['photos', 'photo'], ['potatoes', 'potato']
+];
+
+const failures: string[] = [];
+
+INFLECT_CASES.forEach(({ lemma, partOfSpeech, includes, excludes }) => {
+    const forms = new Set(inflect(lemma, partOfSpeech));
+    const missing = includes.filter(f => !forms.has(f));
+    const unexpected = excludes.filter(f => forms.has(f));
+    const passed = missing.length === 0 && unexpected.length === 0;
+    console.log(`${passed ? '✓' : '✗'} inflect(${lemma})${passed ? '' : `  缺少 [${missing.join(', ')}] 多出 [${unexpected.join(', ')}]`}`);
+    if (!passed) failures.push(lemma);
+});
+
+LEMMA_CASES.forEach(([word, expected]) => {
+    const actual = toLemma(word);
+    const passed = actual === expected;
+    console.log(`${passed ? '✓' : '✗'} toLemma(${word})${passed ? '' : `  期望 ${expected} 实际 ${actual}`}`);
+    if (!passed) failures.push(word);
+});
+
+const total = INFLECT_CASES.length + LEMMA_CASES.length;
+console.log(`\n通过 ${total - failures.length} / ${total}`);
+if (failures.length > 0) throw new Error(`${failures.length} 个词形用例未通过`);
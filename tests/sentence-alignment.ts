@@ -0,0 +1,79 @@
+import { alignSentences, getCacheablePairs, MIN_ALIGNMENT_CONFIDENCE } from "../utils/sentence-alignment";
+
+/**
+ * 句子对齐回归语料：译文句子如何分配给原文句子，以及哪些句对会写入缓存，修改对齐逻辑后运行 npm test 自检
+ */
+
+interface AlignmentCase {
+    name: string;
+    sources: string[];
+    translations: string[];
+    aligned: string[]; // 期望分配给每句原文的译文
+    cached: string[]; // 期望写入缓存的原文句子
+}
+
+const ALIGNMENT_CASES: AlignmentCase[] = [
+    {
+        name: '逐句一一对应',
+        sources: ['今天天气很好。', '我们去公园散步。', '晚上回家吃饭。'],
+        translations: ['The weather is nice today.', 'We go for a walk in the park.', 'We go home for dinner in the evening.'],
+        aligned: ['The weather is nice today.', 'We go for a walk in the park.', 'We go home for dinner in the evening.'],
+        cached: ['今天天气很好。', '我们去公园散步。', '晚上回家吃饭。']
+    },
+    {
+        name: '两句原文合并为一句译文',
+        sources: ['今天天气很好。', '我们去公园散步。', '晚上回家吃饭。'],
+        translations: ['The weather is nice today, so we go for a walk in the park.', 'We go home for dinner in the evening.'],
+        aligned: [
+            'The weather is nice today, so we go for a walk in the park.',
+            'The weather is nice today, so we go for a walk in the park.',
+            'We go home for dinner in the evening.'
+        ],
+        cached: ['晚上回家吃饭。']
+    },
+    {
+        name: '一句原文拆分为两句译文',
+        sources: ['会议推迟到下周三举行，所有参会人员需要提前提交报告并确认出席。', '地点不变。'],
+        translations: ['The meeting is postponed to next Wednesday.', 'All participants must submit reports in advance and confirm attendance.', 'The venue remains the same.'],
+        aligned: [
+            'The meeting is postponed to next Wednesday. All participants must submit reports in advance and confirm attendance.',
+            'The venue remains the same.'
+        ],
+        cached: ['地点不变。']
+    },
+    {
+        name: '句数不一致时只缓存一一对应的句子',
+        sources: ['他在2019年加入公司。', '当时公司只有12名员工。', '现在已经超过500人。', '他负责产品设计。'],
+        translations: ['He joined the company in 2019, when it had only 12 employees.', 'Now there are more than 500.', 'He is responsible for product design.'],
+        aligned: [
+            'He joined the company in 2019, when it had only 12 employees.',
+            'He joined the company in 2019, when it had only 12 employees.',
+            'Now there are more than 500.',
+            'He is responsible for product design.'
+        ],
+        cached: ['现在已经超过500人。', '他负责产品设计。']
+    },
+    {
+        name: '单句原文对应多句译文时不缓存',
+        sources: ['请稍候，我们马上回来。'],
+        translations: ['Please wait.', 'We will be right back.'],
+        aligned: ['Please wait. We will be right back.'],
+        cached: []
+    }
+];
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((t, i) => t === b[i]);
+
+const failures = ALIGNMENT_CASES.filter(testCase => {
+    const { aligned, exact, confidence } = alignSentences(testCase.sources, testCase.translations);
+    const cached = getCacheablePairs(testCase.sources, aligned, exact).map(p => p.source);
+    const problems: string[] = [];
+    if (!sameList(aligned, testCase.aligned)) problems.push(`对齐结果 [${aligned.join(' | ')}]`);
+    if (!sameList(cached, testCase.cached)) problems.push(`缓存句子 [${cached.join(' | ')}]`);
+    if (confidence < MIN_ALIGNMENT_CONFIDENCE) problems.push(`置信度过低 ${confidence.toFixed(2)}`);
+    console.log(`${problems.length === 0 ? '✓' : '✗'} ${testCase.name}${problems.length === 0 ? '' : `  ${problems.join('；')}`}`);
+    return problems.length > 0;
+});
+
+console.log(`\n通过 ${ALIGNMENT_CASES.length - failures.length} / ${ALIGNMENT_CASES.length}`);
+if (failures.length > 0) throw new Error(`${failures.length} 个对齐用例未通过`);
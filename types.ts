@@ -115,6 +115,9 @@ export interface WordEntry {
   sourceTimestamp?: number; // Video timestamp in seconds
   scenarioId?: string;
   category: WordCategory;
+  allowShortMatch?: boolean; // 允许单字或虚词释义参与页面匹配
+  aliases?: string[]; // 用户添加的额外匹配词 (如 book 也替换「订票」)，不受单字 / 虚词限制
+  excludePatterns?: string[]; // 命中位置落在这些词语之内时不替换 (如「书记」中的「书」)
 }
 
 // --- New Types for Rich Data Parsing (Add Word Modal) ---
@@ -159,6 +162,7 @@ export interface Scenario {
   name: string;
   isActive: boolean;
   isCustom?: boolean;
+  styles?: Partial<Record<WordCategory, Partial<StyleConfig>>>; // 该场景单词的样式覆盖
 }
 
 export type EngineType = 'standard' | 'ai';
@@ -183,6 +187,17 @@ export interface TranslationEngine {
   testErrorMessage?: string; // Specific error message from API
   isCustom?: boolean;
   isWebSimulation?: boolean; // 新增：是否使用网页版模拟
+
+  // 限速：每个引擎独立计算，未设置时使用默认值
+  maxConcurrency?: number;
+  requestsPerSecond?: number;
+  batchCharLimit?: number; // 单次批量请求的字符上限，未设置时按引擎默认
+}
+
+export interface EngineCooldownStatus {
+  failures: number;
+  until: number;
+  lastError: string;
 }
 
 export interface DictionaryEngine {
@@ -227,6 +242,15 @@ export interface InteractionTrigger {
 
 export type BubblePosition = 'top' | 'bottom' | 'left' | 'right';
 
+// 划词查询：在任意网页文本上打开查词气泡
+export type SelectionLookupAction = 'DoubleClick' | 'Select';
+
+export interface SelectionLookupConfig {
+  enabled: boolean;
+  action: SelectionLookupAction; // 双击单词 或 划选文本后松开鼠标
+  modifier: ModifierKey;
+}
+
 export interface WordInteractionConfig {
   mainTrigger: InteractionTrigger;
   quickAddTrigger: InteractionTrigger;
@@ -245,6 +269,7 @@ export interface WordInteractionConfig {
   dismissDelay: number; // ms to wait before hiding bubble
   allowMultipleBubbles: boolean; // if true, new bubbles don't close old ones
   onlineDictUrl?: string; // New: URL template for online dictionary link
+  selectionLookup?: SelectionLookupConfig;
 }
 
 export type PopupCardField = 'context' | 'mixed' | 'dictExample';
@@ -291,14 +316,40 @@ export interface PageWidgetConfig {
   cardDisplay: PopupCardItem[];
 }
 
+export type SiteMode = 'blacklist' | 'whitelist';
+
+// Per-site overrides. Undefined fields inherit the global AutoTranslateConfig.
+export interface SiteRuleOverrides {
+  enabled?: boolean;
+  bilingualMode?: boolean;
+  translateWholePage?: boolean;
+  aggressiveMode?: boolean;
+  engineId?: string; // Preferred engine for this site
+  styles?: Partial<Record<WordCategory, Partial<StyleConfig>>>;
+  scenarioIds?: string[]; // 在该站点启用的场景，替代全局的启用状态
+}
+
+export interface SiteRule {
+  id: string;
+  pattern: string; // e.g. "*.zhihu.com", "github.com/*/issues/*"
+  overrides: SiteRuleOverrides;
+}
+
+export type TranslationTriggerMode = 'auto' | 'manual';
+
 export interface AutoTranslateConfig {
   enabled: boolean;
+  triggerMode?: TranslationTriggerMode; // manual: wait for the translate-page command (Alt+T)
   bilingualMode: boolean; 
   translateWholePage: boolean; // New setting for scanning scope
   matchInflections: boolean; // New: Smart morphology matching
   aggressiveMode: boolean; // NEW: Aggressive Dictionary Matching
+  englishGloss?: boolean; // 英文页面高亮词库中的正在学 / 想学习单词 (不调用翻译引擎)
+  showGlossTranslation?: boolean; // 高亮单词后附带简短中文释义
+  siteMode?: SiteMode; // blacklist: run everywhere except blacklist; whitelist: only run on whitelist
   blacklist: string[];
   whitelist: string[];
+  siteRules?: SiteRule[];
   ttsSpeed: number;
 }
 
@@ -320,4 +371,103 @@ export interface MergeStrategyConfig {
 }
 
 export type AppView = 'dashboard' | 'words' | 'settings' | 'word-detail';
-export type SettingSectionId = 'general' | 'visual-styles' | 'scenarios' | 'word-bubble' | 'page-widget' | 'engines' | 'preview' | 'anki';
\ No newline at end of file
+export type SettingSectionId = 'general' | 'visual-styles' | 'scenarios' | 'word-bubble' | 'page-widget' | 'engines' | 'preview' | 'anki';
+// --- Translation Cache (Background) ---
+
+export interface TranslationCacheRecord {
+  text: string; // 译文
+  engineId: string;
+  target: string;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface TranslationCacheState {
+  records: Record<string, TranslationCacheRecord>; // key: sha256(engineId|target|normalized sentence)
+  hits: number;
+  misses: number;
+}
+
+export interface TranslationCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+}
+
+// --- Dictionary Definition Cache (Aggressive Matching) ---
+
+export interface DefinitionCacheRecord {
+  definitions: string[]; // 词典中的全部中文释义片段
+  fetchedAt: number;
+}
+
+export type DefinitionCacheState = Record<string, DefinitionCacheRecord>; // key: 小写单词
+
+// --- Exposure Tracking ---
+
+// impression: 页面上渲染了替换；hover: 鼠标移入；bubble: 打开气泡；pronounce: 朗读；quickAdd: 快速添加
+export type ExposureEventType = 'impression' | 'hover' | 'bubble' | 'pronounce' | 'quickAdd';
+
+export interface ExposureEvent {
+  entryId: string;
+  type: ExposureEventType;
+  timestamp: number;
+  host: string;
+}
+
+export interface ExposureStats {
+  counts: Record<ExposureEventType, number>;
+  lastSeenAt: number;
+}
+
+export interface ExposureState {
+  events: ExposureEvent[]; // 最近的事件明细 (超出上限时丢弃最早的)
+  stats: Record<string, ExposureStats>; // key: entryId，累计值不随明细淘汰
+}
+
+// --- Runtime Messages ---
+
+// 内容脚本、设置页发给 Background 的消息，Background 按 action 分发
+export type BackgroundMessage =
+  | { action: 'TRANSLATE_TEXT'; text: string; target: string; engine: TranslationEngine }
+  | { action: 'TRANSLATE_TEXT'; text: string; target: string; engines: TranslationEngine[] } // 按顺序故障切换
+  | { action: 'TRANSLATE_BATCH'; texts: string[]; target: string; engines: TranslationEngine[] }
+  | { action: 'GET_CACHED_TRANSLATIONS'; blocks: string[][]; engineIds: string[]; target: string }
+  | { action: 'STORE_CACHED_TRANSLATIONS'; pairs: { source: string; translation: string }[]; engineId: string; target: string }
+  | { action: 'GET_TRANSLATION_CACHE_STATS' }
+  | { action: 'CLEAR_TRANSLATION_CACHE' }
+  | { action: 'RECORD_EXPOSURE'; events: ExposureEvent[] }
+  | { action: 'GET_ENGINE_COOLDOWNS' }
+  | { action: 'RESET_ENGINE_COOLDOWN'; engineId: string }
+  | { action: 'LOOKUP_WORD_RICH'; text: string }
+  | { action: 'SUGGEST_WORD'; text: string }
+  | { action: 'OPEN_OPTIONS_PAGE'; path: string };
+
+// Background 对各消息返回的 data 类型
+export interface BackgroundResponseData {
+  TRANSLATE_TEXT: { Response: { TargetText: string } };
+  TRANSLATE_BATCH: string[];
+  GET_CACHED_TRANSLATIONS: (string[] | null)[];
+  STORE_CACHED_TRANSLATIONS: undefined;
+  GET_TRANSLATION_CACHE_STATS: TranslationCacheStats;
+  CLEAR_TRANSLATION_CACHE: undefined;
+  RECORD_EXPOSURE: undefined;
+  GET_ENGINE_COOLDOWNS: Record<string, EngineCooldownStatus>;
+  RESET_ENGINE_COOLDOWN: undefined;
+  LOOKUP_WORD_RICH: RichDictionaryResult;
+  SUGGEST_WORD: { entry: string; explanation: string }[];
+  OPEN_OPTIONS_PAGE: undefined;
+}
+
+export interface BackgroundResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  engineId?: string; // 翻译类消息：实际给出译文的引擎
+}
+
+// Background 发给内容脚本的消息 (快捷键、右键菜单)
+export type ContentMessage =
+  | { action: 'TRIGGER_TRANSLATION' }
+  | { action: 'CONTEXT_MENU_ACTION'; mode: 'lookup'; selectionText: string }
+  | { action: 'CONTEXT_MENU_ACTION'; mode: 'add'; selectionText: string; category: WordCategory; scenarioId?: string };
@@ -0,0 +1,111 @@
+interface TrieNode {
+    next: Map<string, number>;
+    fail: number;
+    output: number; // 以此节点结尾的模式编号，-1 表示无
+    dict: number; // 沿失败链最近的、有输出的节点，-1 表示无
+}
+
+export interface AhoCorasickHit<T> {
+    start: number;
+    end: number;
+    pattern: string;
+    values: Set<T>;
+}
+
+/**
+ * Aho-Corasick 多模式匹配自动机
+ * 一次扫描即可找出文本中所有模式的所有出现位置，耗时与模式数量无关。
+ * 支持增量增删：删除只清空模式对应的值，新增节点后在下次查询前重新计算失败指针。
+ */
+export class AhoCorasick<T> {
+    private nodes: TrieNode[] = [this.createNode()];
+    private patterns: { pattern: string, values: Set<T> }[] = [];
+    private patternIds = new Map<string, number>();
+    private dirty = false;
+
+    private createNode(): TrieNode {
+        return { next: new Map(), fail: 0, output: -1, dict: -1 };
+    }
+
+    add(pattern: string, value: T) {
+        if (!pattern) return;
+        let id = this.patternIds.get(pattern);
+        if (id === undefined) {
+            let node = 0;
+            for (const ch of pattern.split('')) {
+                let child = this.nodes[node].next.get(ch);
+                if (child === undefined) {
+                    child = this.nodes.length;
+                    this.nodes.push(this.createNode());
+                    this.nodes[node].next.set(ch, child);
+                    this.dirty = true;
+                }
+                node = child;
+            }
+            id = this.patterns.length;
+            this.patterns.push({ pattern, values: new Set() });
+            this.patternIds.set(pattern, id);
+            this.nodes[node].output = id;
+            this.dirty = true;
+        }
+        this.patterns[id].values.add(value);
+    }
+
+    remove(pattern: string, value: T) {
+        const id = this.patternIds.get(pattern);
+        if (id !== undefined) this.patterns[id].values.delete(value);
+    }
+
+    /**
+     * 仍有值的模式数量与全部模式数量，用于判断是否需要整体重建
+     */
+    get stats() {
+        return { live: this.patterns.filter(p => p.values.size > 0).length, total: this.patterns.length };
+    }
+
+    private build() {
+        const queue: number[] = [];
+        this.nodes[0].fail = 0;
+        this.nodes[0].dict = -1;
+        this.nodes[0].next.forEach(child => {
+            this.nodes[child].fail = 0;
+            this.nodes[child].dict = -1;
+            queue.push(child);
+        });
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            this.nodes[current].next.forEach((child, ch) => {
+                let fail = this.nodes[current].fail;
+                while (fail !== 0 && !this.nodes[fail].next.has(ch)) fail = this.nodes[fail].fail;
+                const target = this.nodes[fail].next.get(ch);
+                const failNode = target !== undefined && target !== child ? target : 0;
+                this.nodes[child].fail = failNode;
+                this.nodes[child].dict = this.nodes[failNode].output !== -1 ? failNode : this.nodes[failNode].dict;
+                queue.push(child);
+            });
+        }
+        this.dirty = false;
+    }
+
+    search(text: string): AhoCorasickHit<T>[] {
+        if (this.dirty) this.build();
+        const hits: AhoCorasickHit<T>[] = [];
+        let node = 0;
+
+        for (let i = 0; i < text.length; i++) {
+            const ch = text[i];
+            while (node !== 0 && !this.nodes[node].next.has(ch)) node = this.nodes[node].fail;
+            node = this.nodes[node].next.get(ch) ?? 0;
+
+            // 当前节点及其失败链上的所有输出
+            let out = this.nodes[node].output !== -1 ? node : this.nodes[node].dict;
+            while (out !== -1) {
+                const { pattern, values } = this.patterns[this.nodes[out].output];
+                if (values.size > 0) hits.push({ start: i + 1 - pattern.length, end: i + 1, pattern, values });
+                out = this.nodes[out].dict;
+            }
+        }
+        return hits;
+    }
+}
@@ -1,5 +1,6 @@
 import { TranslationEngine } from "../types";
 import { getHash, getHmac, toHex } from './crypto';
+import { RequestScheduler } from './engine-pool';
 
 /**
  * 模拟 Google 翻译网页版 (多域名兼容版)
@@ -31,6 +32,41 @@ const callGoogleWebSimulation = async (text: string, target: string = 'en'): Pro
     }
 };
 
+/**
+ * Google 网页版批量接口：重复的 q 参数，返回与输入等长的数组
+ */
+const callGoogleWebSimulationBatch = async (texts: string[], target: string = 'en'): Promise<string[]> => {
+    if (texts.length === 1) return [await callGoogleWebSimulation(texts[0], target)];
+
+    const targetLang = target === 'zh' ? 'zh-CN' : 'en';
+    const params = new URLSearchParams();
+    texts.forEach(text => params.append('q', text));
+
+    try {
+        const response = await fetch(`https://translate.google.com/translate_a/t?client=gtx&sl=auto&tl=${targetLang}`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36"
+            },
+            body: params.toString()
+        });
+
+        if (!response.ok) {
+            throw new Error(`Google 响应异常: ${response.status}`);
+        }
+
+        const resJson = await response.json();
+        // sl=auto 时每一项为 [译文, 检测到的语言]
+        return (resJson as any[]).map(item => Array.isArray(item) ? item[0] : item);
+    } catch (e: any) {
+        if (e.name === 'TypeError' || e.message.includes('fetch')) {
+            throw new Error("Google 翻译连接超时。请检查：1. 是否开启了 VPN；2. 翻墙工具是否配置了全局模式。");
+        }
+        throw e;
+    }
+};
+
 /**
  * 模拟 微软翻译网页版 (Bing Translator)
  * 修复 401 错误：使用 Bing 官网内部接口而非 Azure 接口
@@ -73,6 +109,14 @@ const callMicrosoftWebSimulation = async (text: string, target: string = 'en'):
     }
 };
 
+/**
+ * 百度按行返回译文，多段文本以换行拼接后逐行对应
+ */
+const callBaiduWebSimulationBatch = async (texts: string[], target: string = 'en'): Promise<string[]> => {
+    const joined = texts.map(t => t.replace(/\s*\n\s*/g, ' ')).join('\n');
+    return (await callBaiduWebSimulation(joined, target)).split('\n');
+};
+
 /**
  * 模拟 百度翻译网页版 (修复 1022 错误版)
  */
@@ -120,12 +164,13 @@ const callBaiduWebSimulation = async (text: string, target: string = 'en'): Prom
 };
 
 /**
- * 模拟 DeepL 网页版 JSON-RPC 请求
+ * 模拟 DeepL 网页版 JSON-RPC 请求 (每段文本作为一个 job，一次请求可翻译多段)
  */
-const callDeepLWebSimulation = async (text: string, target: string = 'en'): Promise<string> => {
+const callDeepLWebSimulationBatch = async (texts: string[], target: string = 'en'): Promise<string[]> => {
     const targetLang = target.toUpperCase() === 'ZH' ? 'ZH' : 'EN';
     const id = Math.floor(Math.random() * 100000000);
-    const iCount = (text.split('i').length - 1) + (text.split('I').length - 1);
+    const joined = texts.join('');
+    const iCount = (joined.split('i').length - 1) + (joined.split('I').length - 1);
     
     const getTimeStamp = () => {
         const ts = Date.now();
@@ -137,12 +182,12 @@ const callDeepLWebSimulation = async (text: string, target: string = 'en'): Prom
         jsonrpc: "2.0",
         method: "LMT_handle_jobs",
         params: {
-            jobs: [{
+            jobs: texts.map((text, i) => ({
                 kind: "default",
-                sentences: [{ text, id: 0, prefix: "" }],
+                sentences: [{ text, id: i, prefix: "" }],
                 raw_en_context_before: [],
                 raw_en_context_after: []
-            }],
+            })),
             lang: {
                 target_lang: targetLang,
                 source_lang_user_selected: "auto"
@@ -181,12 +226,12 @@ const callDeepLWebSimulation = async (text: string, target: string = 'en'): Prom
             throw new Error(`DeepL 错误: ${resJson.error.message || '未知'}`);
         }
 
-        const translatedText = resJson.result?.translations?.[0]?.beams?.[0]?.sentences?.[0]?.text;
-        if (!translatedText) {
+        const translated: string[] = (resJson.result?.translations || []).map((t: any) => t?.beams?.[0]?.sentences?.[0]?.text || '');
+        if (translated.length === 0 || !translated[0]) {
             throw new Error("DeepL 需要人机验证：请前往 DeepL 官网手动翻译一次后再尝试。");
         }
 
-        return translatedText;
+        return translated;
     } catch (e: any) {
         if (e.name === 'TypeError') {
             throw new Error("DeepL 无法访问，可能被防火墙拦截，请检查 VPN 设置。");
@@ -196,9 +241,9 @@ const callDeepLWebSimulation = async (text: string, target: string = 'en'): Prom
 };
 
 /**
- * 统一翻译入口
+ * 腾讯云 API 3.0 签名请求 (TC3-HMAC-SHA256)
  */
-export const callTencentTranslation = async (engine: TranslationEngine, sourceText: string = 'Hello', target: string = 'en'): Promise<any> => {
+const callTencentApi = async (engine: TranslationEngine, ACTION: string, body: Record<string, any>): Promise<any> => {
   if (!engine.appId || !engine.secretKey) {
     throw new Error("缺少腾讯翻译 SecretId 或 SecretKey");
   }
@@ -208,18 +253,12 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
   const ENDPOINT = engine.endpoint || "tmt.tencentcloudapi.com";
   const REGION = engine.region || "ap-shanghai";
   const SERVICE = "tmt";
-  const ACTION = "TextTranslate";
   const VERSION = "2018-03-21";
 
   const now = Math.floor(Date.now() / 1000);
   const date = new Date(now * 1000).toISOString().split('T')[0];
 
-  const payload = JSON.stringify({
-    SourceText: sourceText,
-    Source: "auto",
-    Target: target, 
-    ProjectId: Number(engine.projectId) || 0
-  });
+  const payload = JSON.stringify(body);
 
   const httpRequestMethod = "POST";
   const canonicalUri = "/";
@@ -279,6 +318,28 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
   return resJson;
 };
 
+/**
+ * 统一翻译入口
+ */
+export const callTencentTranslation = async (engine: TranslationEngine, sourceText: string = 'Hello', target: string = 'en'): Promise<any> => {
+  return callTencentApi(engine, "TextTranslate", {
+    SourceText: sourceText,
+    Source: "auto",
+    Target: target, 
+    ProjectId: Number(engine.projectId) || 0
+  });
+};
+
+export const callTencentBatchTranslation = async (engine: TranslationEngine, sourceTexts: string[], target: string = 'en'): Promise<string[]> => {
+  const resJson = await callTencentApi(engine, "TextTranslateBatch", {
+    SourceTextList: sourceTexts,
+    Source: "auto",
+    Target: target,
+    ProjectId: Number(engine.projectId) || 0
+  });
+  return resJson.Response?.TargetTextList || [];
+};
+
 export const callNiuTransTranslation = async (engine: TranslationEngine, sourceText: string, target: string = 'en'): Promise<any> => {
     if (!engine.apiKey) throw new Error("缺少小牛翻译 API Key");
     const endpoint = engine.endpoint || 'https://api.niutrans.com/NiuTransServer/translation';
@@ -299,22 +360,34 @@ export const callNiuTransTranslation = async (engine: TranslationEngine, sourceT
 };
 
 export const callDeepLTranslation = async (engine: TranslationEngine, sourceText: string, target: string = 'en'): Promise<any> => {
+    const [text] = await callDeepLBatchTranslation(engine, [sourceText], target);
+    return { Response: { TargetText: text } };
+};
+
+/**
+ * DeepL 批量翻译：官方 API 通过重复的 text 参数，网页模拟通过多个 job
+ */
+export const callDeepLBatchTranslation = async (engine: TranslationEngine, sourceTexts: string[], target: string = 'en'): Promise<string[]> => {
     if (engine.isWebSimulation || (!engine.apiKey && !engine.isCustom)) {
-        const text = await callDeepLWebSimulation(sourceText, target);
-        return { Response: { TargetText: text } };
+        return callDeepLWebSimulationBatch(sourceTexts, target);
     }
     if (!engine.apiKey) throw new Error("缺少 DeepL API Key");
     const isFree = engine.apiKey.endsWith(':fx');
     const endpoint = engine.endpoint || (isFree ? 'https://api-free.deepl.com/v2/translate' : 'https://api.deepl.com/v2/translate');
     const params = new URLSearchParams({
         auth_key: engine.apiKey,
-        text: sourceText,
         target_lang: target === 'zh' ? 'ZH' : 'EN'
     });
-    const response = await fetch(`${endpoint}?${params.toString()}`, { method: 'POST' });
+    sourceTexts.forEach(text => params.append('text', text));
+    // 文本放在请求体中，避免多段文本超出 URL 长度限制
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params.toString()
+    });
     if (!response.ok) throw new Error(`DeepL API 错误: ${response.statusText}`);
     const resJson = await response.json();
-    return { Response: { TargetText: resJson.translations?.[0]?.text || "" } };
+    return (resJson.translations || []).map((t: any) => t?.text || "");
 };
 
 export const translateWithEngine = async (engine: TranslationEngine, text: string, target: string = 'en'): Promise<string> => {
@@ -350,4 +423,73 @@ export const translateWithEngine = async (engine: TranslationEngine, text: strin
     } catch (e: any) {
         throw e;
     }
-};
\ No newline at end of file
+};
+
+// 单次批量请求的字符预算与条数上限 (参考各服务的接口限制，留有余量)
+const BATCH_LIMITS: Record<string, { chars: number, items: number }> = {
+    google: { chars: 4000, items: 50 },
+    deepl: { chars: 4000, items: 50 },
+    tencent: { chars: 5000, items: 50 },
+    baidu: { chars: 2000, items: 50 },
+    microsoft: { chars: 1000, items: 1 },
+    niutrans: { chars: 2000, items: 1 }
+};
+const DEFAULT_BATCH_LIMIT = { chars: 2000, items: 1 };
+
+export const getBatchCharBudget = (engine: TranslationEngine): number => {
+    return engine.batchCharLimit || (BATCH_LIMITS[engine.id] || DEFAULT_BATCH_LIMIT).chars;
+};
+
+const translateChunkWithEngine = async (engine: TranslationEngine, texts: string[], target: string): Promise<string[]> => {
+    switch (engine.id) {
+        case 'google': return callGoogleWebSimulationBatch(texts, target);
+        case 'baidu': return callBaiduWebSimulationBatch(texts, target);
+        case 'tencent': return callTencentBatchTranslation(engine, texts, target);
+        case 'deepl': return callDeepLBatchTranslation(engine, texts, target);
+        default: {
+            // 没有原生批量接口的引擎逐条翻译
+            const results: string[] = [];
+            for (const text of texts) results.push(await translateWithEngine(engine, text, target));
+            return results;
+        }
+    }
+};
+
+/**
+ * 批量翻译：按引擎的字符预算分组，优先使用各引擎原生的多文本接口
+ * 每组是一次独立请求，经 schedule 分别进入引擎的限速队列
+ * 返回与输入一一对应的译文，条数不一致时抛出错误以便切换引擎
+ */
+export const translateBatchWithEngine = async (
+    engine: TranslationEngine,
+    texts: string[],
+    target: string = 'en',
+    schedule: RequestScheduler = request => request()
+): Promise<string[]> => {
+    if (!engine.isEnabled) throw new Error("引擎未启用");
+    const limit = BATCH_LIMITS[engine.id] || DEFAULT_BATCH_LIMIT;
+    const budget = getBatchCharBudget(engine);
+
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let size = 0;
+    texts.forEach(text => {
+        if (current.length > 0 && (size + text.length > budget || current.length >= limit.items)) {
+            chunks.push(current);
+            current = [];
+            size = 0;
+        }
+        current.push(text);
+        size += text.length;
+    });
+    if (current.length > 0) chunks.push(current);
+
+    const results = await Promise.all(chunks.map(chunk => schedule(async () => {
+        const translated = await translateChunkWithEngine(engine, chunk, target);
+        if (translated.length !== chunk.length || translated.some((t, i) => !t?.trim() && chunk[i].trim())) {
+            throw new Error(`${engine.name} 批量翻译返回 ${translated.length} 条，期望 ${chunk.length} 条`);
+        }
+        return translated.map(t => t.trim());
+    })));
+    return results.flat();
+};
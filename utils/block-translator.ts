@@ -0,0 +1,90 @@
+import { TranslationEngine } from "../types";
+import { splitTextIntoSentences } from "./text-processing";
+import { alignSentences, getCacheablePairs, MIN_ALIGNMENT_CONFIDENCE } from "./sentence-alignment";
+import { sendBackgroundMessage } from "./messaging";
+
+export interface TranslatedBlock {
+    text: string;
+    sentences: string[];
+    transSentences: string[];
+}
+
+interface PendingBlock {
+    text: string;
+    sentences: string[];
+    transSentences: string[] | null;
+    engineId?: string; // 实际给出译文的引擎，用于写入缓存
+    exact?: boolean[]; // 各句译文是否与原句一一对应，只缓存一一对应的句子
+}
+
+/**
+ * 将整段译文拆分为句子：句末标点后需跟空白才断句，避免拆开 3.5、e.g. 等
+ */
+export const splitTranslatedSentences = (text: string): string[] => {
+    return text.split(/(?<=[.!?。！？]["'”’)]?)\s+/).map(s => s.trim()).filter(Boolean);
+};
+
+const requestBatch = async (engines: TranslationEngine[], texts: string[], target: string): Promise<{ translations: string[], engineId?: string }> => {
+    const response = await sendBackgroundMessage({ action: 'TRANSLATE_BATCH', engines, texts, target });
+    if (!response?.success || !response.data) throw new Error(response?.error || '翻译失败');
+    return { translations: response.data, engineId: response.engineId };
+};
+
+/**
+ * 批量翻译多个段落并按句对应
+ * 1. 读取句子缓存，全部命中的段落无需请求
+ * 2. 其余段落整段打包为一次批量请求，译文拆句后与原文句子对齐 (可处理引擎合并、拆分句子)
+ * 3. 对齐置信度过低的段落再逐句批量翻译，保证每句译文与原句一一对应
+ */
+export const translateBlocks = async (engines: TranslationEngine[], texts: string[], target: string = 'en'): Promise<(TranslatedBlock | null)[]> => {
+    const blocks: PendingBlock[] = texts.map(text => ({ text, sentences: splitTextIntoSentences(text), transSentences: null }));
+
+    // 缓存按实际给出译文的引擎记录，读取时按故障切换顺序依次查找
+    const cached = await sendBackgroundMessage({ action: 'GET_CACHED_TRANSLATIONS', engineIds: engines.map(e => e.id), target, blocks: blocks.map(b => b.sentences) });
+    if (cached?.success && cached.data) {
+        const data = cached.data;
+        blocks.forEach((b, i) => {
+            if (data[i]) b.transSentences = data[i];
+        });
+    }
+
+    const pending = blocks.filter(b => !b.transSentences);
+    if (pending.length > 0) {
+        try {
+            const { translations, engineId } = await requestBatch(engines, pending.map(b => b.text), target);
+            pending.forEach((b, i) => {
+                const { aligned, exact, confidence } = alignSentences(b.sentences, splitTranslatedSentences(translations[i] || ''));
+                if (confidence >= MIN_ALIGNMENT_CONFIDENCE) {
+                    b.transSentences = aligned;
+                    b.exact = exact;
+                    b.engineId = engineId;
+                }
+            });
+        } catch (e) {
+            console.warn("[ContextLingo] 段落批量翻译失败:", e);
+        }
+
+        const mismatched = pending.filter(b => !b.transSentences);
+        if (mismatched.length > 0) {
+            try {
+                const { translations, engineId } = await requestBatch(engines, mismatched.flatMap(b => b.sentences), target);
+                let cursor = 0;
+                mismatched.forEach(b => {
+                    b.transSentences = translations.slice(cursor, cursor + b.sentences.length);
+                    b.exact = b.sentences.map(() => true);
+                    b.engineId = engineId;
+                    cursor += b.sentences.length;
+                });
+            } catch (e) {
+                console.warn("[ContextLingo] 逐句翻译失败:", e);
+            }
+        }
+
+        pending.filter(b => b.transSentences && b.engineId).forEach(b => {
+            const pairs = getCacheablePairs(b.sentences, b.transSentences!, b.exact || []);
+            if (pairs.length > 0) sendBackgroundMessage({ action: 'STORE_CACHED_TRANSLATIONS', engineId: b.engineId!, target, pairs });
+        });
+    }
+
+    return blocks.map(b => b.transSentences ? { text: b.text, sentences: b.sentences, transSentences: b.transSentences } : null);
+};
@@ -0,0 +1,95 @@
+import { WordEntry } from "../types";
+
+// 写在替换 span (.context-lingo-word) 上的语境属性
+export const SENTENCE_ATTR = 'data-lingo-sentence';
+export const SENTENCE_TRANSLATION_ATTR = 'data-lingo-sentence-translation';
+export const SENTENCE_OFFSET_ATTR = 'data-lingo-sentence-offset';
+export const MATCHED_WORD_ATTR = 'data-lingo-matched-word';
+// 替换的来由，供页面检查器展示
+export const MATCHER_ATTR = 'data-lingo-matcher';
+export const MATCHED_DEFINITION_ATTR = 'data-lingo-matched-definition';
+export const MATCH_SCORE_ATTR = 'data-lingo-match-score';
+
+export interface ReplacementDetails {
+    entryId: string;
+    original: string; // 页面上被替换的中文
+    english: string; // 译文中实际出现的英文形态
+    sentence: string;
+    translation: string;
+    matcher: 'fuzzy' | 'aggressive' | 'gloss';
+    definition: string;
+    score: number | null;
+}
+
+/**
+ * 生成中英混合例句，格式与内置示例一致: "我需要 book (预订) 一张去伦敦的机票。"
+ */
+export const buildMixedSentence = (sentence: string, offset: number, original: string, english: string): string => {
+    if (offset < 0 || sentence.substr(offset, original.length) !== original) {
+        offset = sentence.indexOf(original);
+        if (offset === -1) return '';
+    }
+    const before = sentence.substring(0, offset).trimEnd();
+    const after = sentence.substring(offset + original.length).trimStart();
+    const head = before ? `${before} ` : '';
+    // 紧跟标点时不加空格
+    const tail = after && !/^[，。！？、；：,.!?;:）)」”]/.test(after) ? ` ${after}` : after;
+    return `${head}${english} (${original})${tail}`.trim();
+};
+
+/**
+ * 从页面上被点击的替换词提取语境信息 (所在句子、段落及其译文)
+ * 找不到对应元素或语境时只返回来源网址，避免覆盖已有的例句
+ */
+export const captureWordContext = (entry: WordEntry, targetEl?: HTMLElement | null): Partial<WordEntry> => {
+    const context: Partial<WordEntry> = { sourceUrl: location.href };
+
+    const el = targetEl || document.querySelector<HTMLElement>(`.context-lingo-target[data-entry-id="${CSS.escape(entry.id)}"]`);
+    const wordEl = el?.closest<HTMLElement>('.context-lingo-word');
+    if (!wordEl) return context;
+
+    const sentence = wordEl.getAttribute(SENTENCE_ATTR) || '';
+    const sentenceTranslation = wordEl.getAttribute(SENTENCE_TRANSLATION_ATTR) || '';
+    const offset = parseInt(wordEl.getAttribute(SENTENCE_OFFSET_ATTR) || '-1', 10);
+    const original = el?.getAttribute('data-original-text') || '';
+    const english = wordEl.getAttribute(MATCHED_WORD_ATTR) || entry.text;
+
+    if (sentence) {
+        context.contextSentence = sentence.trim();
+        context.contextSentenceTranslation = sentenceTranslation.trim();
+        // 英文页面高亮模式下原文即英文单词，无需生成混合例句
+        if (original && /[\u4e00-\u9fa5]/.test(original)) {
+            const mixed = buildMixedSentence(sentence, offset, original, english);
+            if (mixed) context.mixedSentence = mixed;
+        }
+    }
+
+    const block = wordEl.closest<HTMLElement>('[data-lingo-source]');
+    if (block) {
+        context.contextParagraph = block.getAttribute('data-lingo-source') || '';
+        context.contextParagraphTranslation = block.getAttribute('data-lingo-translation') || '';
+    }
+
+    return context;
+};
+
+/**
+ * 读取替换词上记录的匹配信息；英文页面高亮没有释义与得分
+ */
+export const readReplacementDetails = (targetEl: HTMLElement): ReplacementDetails | null => {
+    const wordEl = targetEl.closest<HTMLElement>('.context-lingo-word');
+    const el = wordEl?.querySelector<HTMLElement>('[data-entry-id]') || targetEl.closest<HTMLElement>('[data-entry-id]');
+    if (!wordEl || !el) return null;
+
+    const score = wordEl.getAttribute(MATCH_SCORE_ATTR);
+    return {
+        entryId: el.getAttribute('data-entry-id') || '',
+        original: el.getAttribute('data-original-text') || '',
+        english: wordEl.getAttribute(MATCHED_WORD_ATTR) || '',
+        sentence: wordEl.getAttribute(SENTENCE_ATTR) || '',
+        translation: wordEl.getAttribute(SENTENCE_TRANSLATION_ATTR) || '',
+        matcher: (wordEl.getAttribute(MATCHER_ATTR) as ReplacementDetails['matcher']) || 'gloss',
+        definition: wordEl.getAttribute(MATCHED_DEFINITION_ATTR) || '',
+        score: score === null ? null : parseFloat(score)
+    };
+};
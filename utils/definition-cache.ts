@@ -0,0 +1,88 @@
+import { AutoTranslateConfig, DefinitionCacheState, RichDictionaryResult, WordEntry } from "../types";
+import { definitionCacheStorage } from "./storage";
+
+const FETCH_INTERVAL = 300; // 逐个查询，避免短时间内大量请求词典接口
+const EMPTY_RETRY_AFTER = 24 * 60 * 60 * 1000; // 未查到释义的单词一天后重试
+const PERSIST_EVERY = 20;
+
+/**
+ * 缓存键：单词小写
+ */
+export const definitionCacheKey = (word: string): string => word.toLowerCase().trim();
+
+/**
+ * 从词典结果中提取中文释义片段，供激进匹配做相似度比较
+ */
+export const extractDictionaryDefinitions = (richData: RichDictionaryResult): string[] => {
+    const definitions = new Set<string>();
+    richData.meanings.forEach(m => {
+        if (m.defCn) m.defCn.split(/[,;，；/]/).forEach(d => definitions.add(d.trim()));
+    });
+    return Array.from(definitions).filter(d => d.length > 0 && /[\u4e00-\u9fa5]/.test(d));
+};
+
+/**
+ * 全局或任一站点规则开启了激进匹配
+ */
+export const isAggressiveModeUsed = (config: AutoTranslateConfig): boolean => {
+    return config.aggressiveMode || !!config.siteRules?.some(r => r.overrides.aggressiveMode);
+};
+
+/**
+ * 激进匹配释义缓存 (仅在 Background 中实例化)
+ * 词库变化后为尚未缓存的单词查询词典并保存释义，内容脚本直接读取，无需在匹配时逐词请求。
+ */
+export class DefinitionCache {
+    private running = false;
+    private pending: WordEntry[] | null = null;
+
+    /**
+     * 补齐词库中缺少释义的单词，并清理已删除单词的记录；查询进行中再次调用时，结束后按最新词库重跑
+     */
+    async sync(entries: WordEntry[], fetcher: (word: string) => Promise<RichDictionaryResult | null>) {
+        if (this.running) {
+            this.pending = entries;
+            return;
+        }
+        this.running = true;
+        try {
+            const state: DefinitionCacheState = { ...(await definitionCacheStorage.getValue()) };
+            const words = new Map(entries.map(e => [definitionCacheKey(e.text), e.text]));
+            let changed = false;
+
+            Object.keys(state).forEach(key => {
+                if (!words.has(key)) { delete state[key]; changed = true; }
+            });
+
+            const now = Date.now();
+            const missing = Array.from(words.entries()).filter(([key]) => {
+                const record = state[key];
+                return !record || (record.definitions.length === 0 && now - record.fetchedAt > EMPTY_RETRY_AFTER);
+            });
+
+            for (let i = 0; i < missing.length; i++) {
+                const [key, word] = missing[i];
+                try {
+                    const result = await fetcher(word);
+                    state[key] = { definitions: result ? extractDictionaryDefinitions(result) : [], fetchedAt: Date.now() };
+                    changed = true;
+                } catch (e) {
+                    console.warn(`[DefinitionCache] lookup failed: ${word}`, e);
+                }
+                // 大批导入时分段落盘，已查到的释义可以尽早生效
+                if (changed && (i + 1) % PERSIST_EVERY === 0) await definitionCacheStorage.setValue(state);
+                if (i < missing.length - 1) await new Promise(r => setTimeout(r, FETCH_INTERVAL));
+            }
+
+            if (changed) await definitionCacheStorage.setValue(state);
+        } finally {
+            this.running = false;
+        }
+
+        if (this.pending) {
+            const next = this.pending;
+            this.pending = null;
+            await this.sync(next, fetcher);
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import { WordCategory, StyleConfig, WordEntry } from "../types";
+
+/**
+ * FNV-1a 32 位哈希，用于生成稳定的伪随机数
+ * 同一页面每次加载得到相同的结果，保证替换选择可复现
+ */
+export const stableHash = (input: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+export interface DensityCandidate {
+    entry: WordEntry;
+    key: string; // 稳定标识：词条 + 所在句子 + 出现序号
+}
+
+/**
+ * 页面级替换密度控制
+ * - percent: 按哈希抽样，每个候选独立判定，天然均匀分布在整页
+ * - count: 全页上限 N，按已处理段落占比逐步释放配额，避免全部堆积在页面顶部
+ */
+export class DensityController {
+    private used = new Map<WordCategory, number>();
+    private totalBlocks = 0;
+    private processedBlocks = 0;
+
+    constructor(private getStyles: () => Record<WordCategory, StyleConfig>) {}
+
+    registerBlock() {
+        this.totalBlocks++;
+    }
+
+    /**
+     * 已登记但不会再渲染的段落 (翻译失败、无译文、已从页面移除)，从总数中扣除，
+     * 否则进度永远达不到 1，剩余配额无法释放
+     */
+    unregisterBlock() {
+        this.totalBlocks = Math.max(this.processedBlocks, this.totalBlocks - 1);
+    }
+
+    reset() {
+        this.used.clear();
+        this.totalBlocks = 0;
+        this.processedBlocks = 0;
+    }
+
+    /**
+     * 对单个段落内已去重的候选替换进行筛选，每个段落调用一次 (即使没有候选)
+     */
+    select<T extends DensityCandidate>(candidates: T[]): T[] {
+        this.processedBlocks++;
+        const styles = this.getStyles();
+        const progress = this.processedBlocks / Math.max(this.totalBlocks, this.processedBlocks);
+
+        const byCategory = new Map<WordCategory, T[]>();
+        candidates.forEach(c => {
+            const list = byCategory.get(c.entry.category) || [];
+            list.push(c);
+            byCategory.set(c.entry.category, list);
+        });
+
+        const selected: T[] = [];
+        byCategory.forEach((list, category) => {
+            const style = styles[category];
+            if (!style) { selected.push(...list); return; }
+            const value = Math.max(0, style.densityValue ?? 100);
+
+            if (style.densityMode === 'count') {
+                const used = this.used.get(category) || 0;
+                const quota = Math.min(value, Math.ceil(value * progress)) - used;
+                if (quota <= 0) return;
+                const picked = [...list]
+                    .sort((a, b) => stableHash(a.key) - stableHash(b.key))
+                    .slice(0, quota);
+                this.used.set(category, used + picked.length);
+                selected.push(...picked);
+            } else {
+                if (value >= 100) { selected.push(...list); return; }
+                selected.push(...list.filter(c => stableHash(c.key) % 100 < value));
+            }
+        });
+
+        return candidates.filter(c => selected.includes(c));
+    }
+}
@@ -2,6 +2,14 @@
 import { WordCategory, StyleConfig, OriginalTextConfig } from "../types";
 import { getStyleStr } from "./style-helper";
 
+// 词典释义与用户输入会拼入 innerHTML，需先转义
+const escapeHtml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 /**
  * Builds the HTML string for a replaced word, applying layout and styles.
  */
@@ -106,3 +114,34 @@ export const buildReplacementHtml = (
         return `<ruby class="context-lingo-wrapper" style="ruby-position: ${rubyPosition}; margin: 0; padding: 0; ruby-align: start; -webkit-ruby-align: start; text-align: left;">${baseInner}<rt style="font-size: 100%; font-family: inherit;">${rtInner}</rt></ruby>`;
     }
 };
+
+/**
+ * Builds the HTML for a highlighted English word on English pages (glossing mode).
+ * The word itself is kept; an optional Chinese gloss follows it.
+ */
+export const buildGlossHtml = (
+    englishWord: string,
+    gloss: string,
+    category: WordCategory,
+    styles: Record<WordCategory, StyleConfig>,
+    originalTextConfig: OriginalTextConfig,
+    entryId: string
+): string => {
+    const wordStyle = getStyleStr(styles[category]);
+    const glossStyle = getStyleStr(originalTextConfig.style);
+    const safeWord = escapeHtml(englishWord);
+
+    const wordInner = `<span style="${wordStyle} border-bottom: 2px solid transparent;" 
+       class="context-lingo-target"
+       data-entry-id="${escapeHtml(entryId)}"
+       data-original-text="${safeWord}"
+       onmouseover="this.style.borderColor='rgba(59, 130, 246, 0.5)'" 
+       onmouseout="this.style.borderColor='transparent'"
+       >${safeWord}</span>`;
+
+    const glossInner = gloss
+        ? `<span class="context-lingo-gloss" style="${glossStyle} font-size: 0.75em; margin-left: 2px; white-space: nowrap;">(${escapeHtml(gloss)})</span>`
+        : '';
+
+    return `<span class="context-lingo-wrapper" style="margin: 0; padding: 0; display: inline;">${wordInner}${glossInner}</span>`;
+};
@@ -0,0 +1,108 @@
+import { EngineCooldownStatus, TranslationEngine } from "../types";
+import { RequestQueue } from "./request-queue";
+
+export const DEFAULT_MAX_CONCURRENCY = 3;
+export const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+const COOLDOWN_BASE = 30 * 1000; // 首次失败冷却 30 秒
+const COOLDOWN_MAX = 10 * 60 * 1000; // 连续失败时翻倍，最长 10 分钟
+
+// 把单次请求放入引擎的限速队列
+export type RequestScheduler = <R>(request: () => Promise<R>) => Promise<R>;
+
+/**
+ * 翻译引擎调度 (仅在 Background 中实例化，所有标签页共享)
+ * - 每个引擎独立的并发数与每秒请求数限制
+ * - 按引擎列表顺序依次尝试，失败的引擎进入指数退避冷却，期间直接跳过
+ */
+export class EnginePool {
+    private queues = new Map<string, RequestQueue>();
+    private cooldowns = new Map<string, EngineCooldownStatus>();
+
+    private queueFor(engine: TranslationEngine): RequestQueue {
+        const concurrency = engine.maxConcurrency || DEFAULT_MAX_CONCURRENCY;
+        const rps = engine.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+        let queue = this.queues.get(engine.id);
+        if (!queue) {
+            queue = new RequestQueue(concurrency, rps);
+            this.queues.set(engine.id, queue);
+        } else {
+            // 设置页可能修改了限速，每次取用时同步
+            queue.setLimits(concurrency, rps);
+        }
+        return queue;
+    }
+
+    /**
+     * 在引擎的限速队列中执行单次请求 (不参与冷却与切换，供测试连接等场景使用)
+     */
+    run<T>(engine: TranslationEngine, task: () => Promise<T>): Promise<T> {
+        return this.queueFor(engine).run(task);
+    }
+
+    /**
+     * 按优先级依次尝试引擎，返回首个成功的结果及实际使用的引擎
+     */
+    runWithFailover<T>(engines: TranslationEngine[], task: (engine: TranslationEngine) => Promise<T>): Promise<{ result: T, engine: TranslationEngine }> {
+        return this.failover(engines, engine => this.queueFor(engine).run(() => task(engine)));
+    }
+
+    /**
+     * 同 runWithFailover，但任务本身不占用队列：任务内的每次请求通过 schedule 分别排队
+     * (批量翻译拆分成多次请求时，每次请求都计入引擎的并发数与每秒请求数)
+     */
+    runScheduledWithFailover<T>(engines: TranslationEngine[], task: (engine: TranslationEngine, schedule: RequestScheduler) => Promise<T>): Promise<{ result: T, engine: TranslationEngine }> {
+        return this.failover(engines, engine => {
+            const queue = this.queueFor(engine);
+            return task(engine, request => queue.run(request));
+        });
+    }
+
+    private async failover<T>(engines: TranslationEngine[], attempt: (engine: TranslationEngine) => Promise<T>): Promise<{ result: T, engine: TranslationEngine }> {
+        const candidates = engines.filter(e => e.isEnabled);
+        if (candidates.length === 0) throw new Error("没有可用的翻译引擎");
+
+        const now = Date.now();
+        const available = candidates.filter(e => (this.cooldowns.get(e.id)?.until || 0) <= now);
+        if (available.length === 0) {
+            const soonest = Math.min(...candidates.map(e => this.cooldowns.get(e.id)!.until));
+            throw new Error(`所有翻译引擎均在冷却中，约 ${Math.ceil((soonest - now) / 1000)} 秒后重试`);
+        }
+
+        let lastError: any = null;
+        for (const engine of available) {
+            try {
+                const result = await attempt(engine);
+                this.cooldowns.delete(engine.id);
+                return { result, engine };
+            } catch (e: any) {
+                lastError = e;
+                this.markFailure(engine, e?.message || String(e));
+                console.warn(`[EnginePool] ${engine.name} 失败，尝试下一个引擎:`, e);
+            }
+        }
+        throw lastError;
+    }
+
+    private markFailure(engine: TranslationEngine, message: string) {
+        const failures = (this.cooldowns.get(engine.id)?.failures || 0) + 1;
+        const duration = Math.min(COOLDOWN_BASE * Math.pow(2, failures - 1), COOLDOWN_MAX);
+        this.cooldowns.set(engine.id, { failures, until: Date.now() + duration, lastError: message });
+    }
+
+    /**
+     * 当前处于冷却中的引擎，供设置页展示
+     */
+    getCooldowns(): Record<string, EngineCooldownStatus> {
+        const now = Date.now();
+        const result: Record<string, EngineCooldownStatus> = {};
+        this.cooldowns.forEach((cooldown, id) => {
+            if (cooldown.until > now) result[id] = cooldown;
+        });
+        return result;
+    }
+
+    resetCooldown(engineId: string) {
+        this.cooldowns.delete(engineId);
+    }
+}
@@ -0,0 +1,101 @@
+import { AutoTranslateConfig, WordCategory, WordEntry } from "../types";
+import { DEFAULT_AUTO_TRANSLATE } from "../constants";
+import { inflect } from "./morphology";
+import { compilePhrase, matchPhraseAt, PhrasePattern } from "./phrases";
+
+// 英文页面仅高亮仍在学习中的单词
+const GLOSS_CATEGORIES = [WordCategory.LearningWord, WordCategory.WantToLearnWord];
+
+const WORD_TOKEN_REGEX = /[A-Za-z]+(?:['’-][A-Za-z]+)*/g;
+
+/**
+ * 英文高亮开关，旧配置中没有该字段时按默认值处理 (设置页与内容脚本共用)
+ */
+export const isEnglishGlossEnabled = (config: AutoTranslateConfig): boolean => !!(config.englishGloss ?? DEFAULT_AUTO_TRANSLATE.englishGloss);
+
+export interface GlossIndex {
+    words: Map<string, WordEntry>;
+    phrases: Map<string, { pattern: PhrasePattern, entry: WordEntry }[]>; // 以首个单词 (及其变形) 为键
+    matchInflections: boolean;
+}
+
+export interface GlossMatch {
+    start: number;
+    end: number;
+    word: string;
+    entry: WordEntry;
+}
+
+/**
+ * 建立英文词形索引 (词条原形 + 可选的变形，变形包括词库记录的与规则生成的)，正在学的词条优先
+ */
+export const buildGlossIndex = (entries: WordEntry[], matchInflections: boolean): GlossIndex => {
+    const index: GlossIndex = { words: new Map(), phrases: new Map(), matchInflections };
+    const addPhrase = (key: string, pattern: PhrasePattern, entry: WordEntry) => {
+        const list = index.phrases.get(key) || [];
+        list.push({ pattern, entry });
+        index.phrases.set(key, list.sort((a, b) => b.pattern.tokens.length - a.pattern.tokens.length));
+    };
+
+    GLOSS_CATEGORIES.forEach(category => {
+        entries.filter(e => e.category === category).forEach(entry => {
+            const isSingleWord = !/\s/.test(entry.text.trim());
+            const forms = [entry.text, ...(matchInflections ? [...(entry.inflections || []), ...(isSingleWord ? inflect(entry.text, entry.partOfSpeech) : [])] : [])];
+            forms.forEach(form => {
+                const tokens = form.toLowerCase().trim().split(/\s+/).filter(Boolean);
+                if (tokens.length === 0) return;
+                if (tokens.length === 1) {
+                    if (!index.words.has(tokens[0])) index.words.set(tokens[0], entry);
+                    return;
+                }
+                const pattern = compilePhrase(tokens)!;
+                addPhrase(tokens[0], pattern, entry);
+                if (matchInflections) pattern.headForms.forEach(head => addPhrase(head, pattern, entry));
+            });
+        });
+    });
+
+    return index;
+};
+
+/**
+ * 在一段英文文本中查找词库中的单词与短语 (短语优先，结果互不重叠，可分离短语动词连同宾语一起高亮)
+ */
+export const findGlossMatches = (text: string, index: GlossIndex): GlossMatch[] => {
+    const tokens = Array.from(text.matchAll(WORD_TOKEN_REGEX)).map(m => ({ value: m[0], lower: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length }));
+    const lowers = tokens.map(t => t.lower);
+    const matches: GlossMatch[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        let phrase: { entry: WordEntry, length: number } | null = null;
+        for (const { pattern, entry } of index.phrases.get(token.lower) || []) {
+            const matched = matchPhraseAt(pattern, lowers, i, index.matchInflections);
+            // 短语内部只允许空白分隔
+            if (matched && tokens.slice(i + 1, i + matched.length).every((next, k) => /^\s+$/.test(text.substring(tokens[i + k].end, next.start)))) {
+                phrase = { entry, length: matched.length };
+                break;
+            }
+        }
+        if (phrase) {
+            const last = tokens[i + phrase.length - 1];
+            matches.push({ start: token.start, end: last.end, word: text.substring(token.start, last.end), entry: phrase.entry });
+            i += phrase.length - 1;
+            continue;
+        }
+
+        const entry = index.words.get(token.lower);
+        if (entry) matches.push({ start: token.start, end: token.end, word: token.value, entry });
+    }
+
+    return matches;
+};
+
+/**
+ * 取词条的首个中文释义作为简短注释，去掉词性前缀
+ */
+export const getShortGloss = (entry: WordEntry): string => {
+    const first = (entry.translation || '').split(/[,;，；]/)[0] || '';
+    return first.replace(/^[a-z]+\.\s*/i, '').trim();
+};
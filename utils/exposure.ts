@@ -0,0 +1,128 @@
+import { browser } from "wxt/browser";
+import { ExposureEvent, ExposureEventType, ExposureState, ExposureStats } from "../types";
+import { exposureStorage } from "./storage";
+
+const MAX_EVENTS = 20000;
+const FLUSH_DELAY = 5000; // 内容脚本攒批发送的间隔
+const MAX_BATCH = 100;
+const PERSIST_DELAY = 2000;
+
+const emptyStats = (): ExposureStats => ({
+    counts: { impression: 0, hover: 0, bubble: 0, pronounce: 0, quickAdd: 0 },
+    lastSeenAt: 0
+});
+
+/**
+ * 合并多个词条 (同词的多个义项) 的曝光统计
+ */
+export const mergeExposureStats = (list: (ExposureStats | undefined)[]): ExposureStats => {
+    const merged = emptyStats();
+    list.forEach(stats => {
+        if (!stats) return;
+        (Object.keys(merged.counts) as ExposureEventType[]).forEach(type => { merged.counts[type] += stats.counts[type] || 0; });
+        merged.lastSeenAt = Math.max(merged.lastSeenAt, stats.lastSeenAt);
+    });
+    return merged;
+};
+
+/**
+ * 相对时间：刚刚 / 5 分钟前 / 3 小时前 / 2 天前 / 4 个月前
+ */
+export const formatTimeAgo = (timestamp: number, now: number = Date.now()): string => {
+    const minutes = Math.floor(Math.max(0, now - timestamp) / 60000);
+    if (minutes < 1) return '刚刚';
+    if (minutes < 60) return `${minutes} 分钟前`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} 小时前`;
+    const days = Math.floor(hours / 24);
+    if (days < 30) return `${days} 天前`;
+    const months = Math.floor(days / 30);
+    if (months < 12) return `${months} 个月前`;
+    return `${Math.floor(months / 12)} 年前`;
+};
+
+/**
+ * "见过 37 次，最近 2 天前"；没有记录时返回空字符串
+ */
+export const formatExposure = (stats: ExposureStats | undefined): string => {
+    if (!stats || stats.lastSeenAt === 0) return '';
+    return `见过 ${stats.counts.impression} 次，最近 ${formatTimeAgo(stats.lastSeenAt)}`;
+};
+
+/**
+ * 内容脚本中的曝光记录器：事件先在内存中攒批，定时或页面隐藏时一次性发给 Background
+ * 同一处替换在重新渲染 (配置变化、重新扫描) 时只计一次展示
+ */
+export class ExposureTracker {
+    private buffer: ExposureEvent[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private seenImpressions = new Set<string>();
+
+    record(entryId: string, type: ExposureEventType) {
+        this.buffer.push({ entryId, type, timestamp: Date.now(), host: window.location.hostname });
+        if (this.buffer.length >= MAX_BATCH) this.flush();
+        else if (!this.timer) this.timer = setTimeout(() => this.flush(), FLUSH_DELAY);
+    }
+
+    recordImpression(entryId: string, key: string) {
+        if (this.seenImpressions.has(key)) return;
+        this.seenImpressions.add(key);
+        this.record(entryId, 'impression');
+    }
+
+    /**
+     * 单页应用切换路由后，新页面上的替换重新计入展示
+     */
+    resetImpressions() {
+        this.seenImpressions.clear();
+    }
+
+    flush() {
+        if (this.timer) { clearTimeout(this.timer); this.timer = null; }
+        if (this.buffer.length === 0) return;
+        const events = this.buffer;
+        this.buffer = [];
+        browser.runtime.sendMessage({ action: 'RECORD_EXPOSURE', events }).catch(e => console.warn('[Exposure] flush failed', e));
+    }
+}
+
+/**
+ * 曝光记录的持久化 (仅在 Background 中实例化)
+ * 内存中维护一份副本，写操作延迟合并后再落盘。
+ */
+export class ExposureLog {
+    private state: ExposureState | null = null;
+    private loading: Promise<ExposureState> | null = null;
+    private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+    private async load(): Promise<ExposureState> {
+        if (this.state) return this.state;
+        if (!this.loading) {
+            this.loading = exposureStorage.getValue().then(v => {
+                this.state = { events: v?.events || [], stats: v?.stats || {} };
+                return this.state;
+            });
+        }
+        return this.loading;
+    }
+
+    private schedulePersist() {
+        if (this.persistTimer) return;
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = null;
+            if (this.state) exposureStorage.setValue(this.state).catch(e => console.warn('[ExposureLog] persist failed', e));
+        }, PERSIST_DELAY);
+    }
+
+    async append(events: ExposureEvent[]) {
+        const state = await this.load();
+        events.forEach(event => {
+            const stats = state.stats[event.entryId] || (state.stats[event.entryId] = emptyStats());
+            stats.counts[event.type] = (stats.counts[event.type] || 0) + 1;
+            stats.lastSeenAt = Math.max(stats.lastSeenAt, event.timestamp);
+        });
+        state.events.push(...events);
+        if (state.events.length > MAX_EVENTS) state.events.splice(0, state.events.length - MAX_EVENTS);
+        this.schedulePersist();
+    }
+}
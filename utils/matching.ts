@@ -1,9 +1,91 @@
-import { WordEntry, RichDictionaryResult } from "../types";
+import { WordEntry } from "../types";
 import { normalizeEnglishText } from "./text-processing";
+import { AhoCorasick } from "./aho-corasick";
+import { inflect, spellingVariants } from "./morphology";
+import { compilePhrase, matchPhraseAt, PhrasePattern } from "./phrases";
+import { rankSenses } from "./sense-disambiguation";
+import { toSimplified } from "./chinese-variants";
 
 // 常见中文停用词/助词
 const CHINESE_STOP_WORDS = new Set(['的', '了', '和', '是', '在', '之', '与', '或', '等', '及', '其', '这', '那', '个']);
 
+// 过于常见的多字虚词，作为释义时几乎每段都会命中
+const STOP_WORD_DEFINITIONS = new Set(['我们', '你们', '他们', '这个', '那个', '这些', '那些', '因为', '所以', '但是', '而且', '如果', '可以', '一个', '没有', '什么', '自己', '已经', '就是', '还是', '或者', '以及', '并且', '时候']);
+
+// 分词器常把数词、量词、代词与后面的词合并 (如 "一本书"、"我在")，切开这些字不算破坏词语
+const CLITIC_CHARS = new Set('一二三四五六七八九十百千万两几每各某这那哪我你他她它们在是要想会很都也就个本张只条件位些次把被'.split(''));
+
+const CHINESE_REGEX = /[\u4e00-\u9fa5]/;
+
+/**
+ * 释义是否允许参与匹配：单字与虚词释义默认跳过，除非词条单独允许
+ */
+export const isMatchableDefinition = (def: string, entry: WordEntry): boolean => {
+    if (entry.allowShortMatch) return true;
+    if (!CHINESE_REGEX.test(def)) return true;
+    return def.length > 1 && !CHINESE_STOP_WORDS.has(def) && !STOP_WORD_DEFINITIONS.has(def);
+};
+
+const splitDefinitions = (entry: WordEntry): string[] => {
+    return entry.translation?.split(/[,;，；\s/]+/).map(d => d.trim()).filter(d => d.length > 0) || [];
+};
+
+/**
+ * 词条中因过短或为虚词而被跳过的释义，供设置页提示
+ */
+export const getBlockedDefinitions = (entry: WordEntry): string[] => {
+    return splitDefinitions(entry).filter(d => !isMatchableDefinition(d, { ...entry, allowShortMatch: false }));
+};
+
+/**
+ * 参与匹配的中文：释义中可匹配的部分 + 用户添加的别名 (统一转为简体)
+ */
+export const getMatchDefinitions = (entry: WordEntry): string[] => {
+    const aliases = (entry.aliases || []).map(a => toSimplified(a.trim())).filter(Boolean);
+    return Array.from(new Set([...splitDefinitions(entry).map(toSimplified).filter(d => isMatchableDefinition(d, entry)), ...aliases]));
+};
+
+/**
+ * 命中区间 [start, end) 是否落在词条的排除词之内 (如「书」出现在「书记」中)
+ */
+export const isExcludedMatch = (sourceText: string, start: number, end: number, entry: WordEntry): boolean => {
+    return (entry.excludePatterns || []).some(pattern => {
+        const p = toSimplified(pattern.trim());
+        if (!p) return false;
+        let pos = sourceText.indexOf(p, Math.max(0, end - p.length));
+        while (pos !== -1 && pos <= start) {
+            if (pos + p.length >= end) return true;
+            pos = sourceText.indexOf(p, pos + 1);
+        }
+        return false;
+    });
+};
+
+/**
+ * 使用 Intl.Segmenter 分词，返回每个字符所属的分词区间
+ */
+const segmentChinese = (text: string): { start: number, end: number }[] => {
+    const segmenter = new (Intl as any).Segmenter('zh-CN', { granularity: 'word' });
+    const spans: { start: number, end: number }[] = new Array(text.length);
+    Array.from((segmenter as any).segment(text)).forEach((s: any) => {
+        const span = { start: s.index, end: s.index + s.segment.length };
+        for (let i = span.start; i < span.end; i++) spans[i] = span;
+    });
+    return spans;
+};
+
+/**
+ * [start, end) 是否与分词边界对齐，仅切掉数词、量词、代词等附着成分时视为对齐
+ */
+const isWordAligned = (text: string, spans: { start: number, end: number }[], start: number, end: number): boolean => {
+    const isClitic = (piece: string) => piece.split('').every(c => CLITIC_CHARS.has(c));
+    const head = spans[start];
+    if (head && head.start < start && !isClitic(text.substring(head.start, start))) return false;
+    const tail = spans[end - 1];
+    if (tail && tail.end > end && !isClitic(text.substring(end, tail.end))) return false;
+    return true;
+};
+
 const calculateSimilarity = (segment: string, definition: string): number => {
     if (!segment || !definition) return 0;
     if (segment === definition) return 1.0;
@@ -19,67 +101,254 @@ const calculateSimilarity = (segment: string, definition: string): number => {
     return (2.0 * intersectionCount) / (cleanSeg.length + cleanDef.length);
 };
 
+interface PhraseForm {
+    pattern: PhrasePattern;
+    id: string;
+}
+
+interface IndexedEntry {
+    entry: WordEntry;
+    signature: string;
+    definitions: string[];
+    forms: string[]; // 词条原形 (含英美拼写)
+    inflectedForms: string[]; // 词库记录的变形与规则生成的变形
+    phraseKeys: string[];
+}
+
+const addToSetMap = (map: Map<string, Set<string>>, key: string, id: string) => {
+    if (!map.has(key)) map.set(key, new Set());
+    map.get(key)!.add(id);
+};
+
+/**
+ * 词库匹配索引
+ * - 中文释义：Aho-Corasick 自动机，一次扫描找出句子中所有释义的出现位置
+ * - 英文词形：按小写词形建立哈希表 (原形与变形分开，由 matchInflections 决定是否使用变形)，多词形式按首词索引
+ * 词库变化时按词条比对增量更新，只处理新增、修改与删除的词条。
+ */
+export class MatchIndex {
+    private definitions = new AhoCorasick<string>(); // 值为词条 id
+    private forms = new Map<string, Set<string>>();
+    private inflectedForms = new Map<string, Set<string>>();
+    private phraseForms = new Map<string, PhraseForm[]>();
+    private senses = new Map<string, Set<string>>(); // 同一英文单词的各个义项
+    private entries = new Map<string, IndexedEntry>();
+
+    private static signatureOf(entry: WordEntry): string {
+        return JSON.stringify([entry.text, entry.translation, entry.partOfSpeech, entry.inflections, entry.allowShortMatch, entry.aliases, entry.excludePatterns]);
+    }
+
+    update(entries: WordEntry[]) {
+        const seen = new Set<string>();
+        entries.forEach(entry => {
+            seen.add(entry.id);
+            const signature = MatchIndex.signatureOf(entry);
+            const existing = this.entries.get(entry.id);
+            if (existing && existing.signature === signature) {
+                existing.entry = entry;
+                return;
+            }
+            if (existing) this.removeEntry(entry.id);
+            this.addEntry(entry, signature);
+        });
+        Array.from(this.entries.keys()).filter(id => !seen.has(id)).forEach(id => this.removeEntry(id));
+
+        // 删除累积过多时整体重建，回收自动机中已无用的节点
+        const { live, total } = this.definitions.stats;
+        if (total > 1000 && live * 2 < total) {
+            const current = Array.from(this.entries.values()).map(e => e.entry);
+            this.definitions = new AhoCorasick<string>();
+            this.forms.clear();
+            this.inflectedForms.clear();
+            this.phraseForms.clear();
+            this.senses.clear();
+            this.entries.clear();
+            current.forEach(entry => this.addEntry(entry, MatchIndex.signatureOf(entry)));
+        }
+    }
+
+    private addEntry(entry: WordEntry, signature: string) {
+        const definitions = getMatchDefinitions(entry);
+        const tokens = normalizeEnglishText(entry.text).split(/\s+/).filter(Boolean);
+        const forms: string[] = [];
+        const inflectedForms = new Set<string>();
+        const phraseKeys: string[] = [];
+
+        if (tokens.length === 1) {
+            forms.push(...spellingVariants(tokens[0]));
+            (entry.inflections || []).map(f => normalizeEnglishText(f).trim()).filter(f => f && !f.includes(' ')).forEach(f => inflectedForms.add(f));
+            inflect(tokens[0], entry.partOfSpeech).forEach(f => inflectedForms.add(f));
+            forms.forEach(f => inflectedForms.delete(f));
+        } else if (tokens.length > 1) {
+            const phrase: PhraseForm = { pattern: compilePhrase(tokens)!, id: entry.id };
+            this.phraseForms.set(tokens[0], [...(this.phraseForms.get(tokens[0]) || []), phrase]);
+            phraseKeys.push(tokens[0]);
+            // 首词变形时也能从变形查到短语 (looked forward to)
+            phrase.pattern.headForms.forEach(form => {
+                this.phraseForms.set(form, [...(this.phraseForms.get(form) || []), phrase]);
+                phraseKeys.push(form);
+            });
+        }
+
+        this.entries.set(entry.id, { entry, signature, definitions, forms, inflectedForms: Array.from(inflectedForms), phraseKeys });
+        definitions.forEach(def => this.definitions.add(def, entry.id));
+        forms.forEach(f => addToSetMap(this.forms, f, entry.id));
+        inflectedForms.forEach(f => addToSetMap(this.inflectedForms, f, entry.id));
+        addToSetMap(this.senses, MatchIndex.senseKey(entry.text), entry.id);
+    }
+
+    private removeEntry(id: string) {
+        const indexed = this.entries.get(id);
+        if (!indexed) return;
+        indexed.definitions.forEach(def => this.definitions.remove(def, id));
+        indexed.forms.forEach(f => this.forms.get(f)?.delete(id));
+        indexed.inflectedForms.forEach(f => this.inflectedForms.get(f)?.delete(id));
+        indexed.phraseKeys.forEach(key => this.phraseForms.set(key, (this.phraseForms.get(key) || []).filter(p => p.id !== id)));
+        this.senses.get(MatchIndex.senseKey(indexed.entry.text))?.delete(id);
+        this.entries.delete(id);
+    }
+
+    private static senseKey(text: string): string {
+        return text.toLowerCase().trim().replace(/\s+/g, ' ');
+    }
+
+    getEntry(id: string): WordEntry | undefined {
+        return this.entries.get(id)?.entry;
+    }
+
+    /**
+     * 词库中与该词条同词的所有义项 (含自身)
+     */
+    sensesOf(entry: WordEntry): WordEntry[] {
+        return Array.from(this.senses.get(MatchIndex.senseKey(entry.text)) || []).map(id => this.getEntry(id)!).filter(Boolean);
+    }
+
+    /**
+     * 译文中出现的词条及其实际词形 (同一词条取最长的词形，防止 matches 被记为 match)
+     * matchInflections 关闭时只认原形；短语支持首词 / 末词变形与可分离短语动词 (turn it off)
+     */
+    findFormsInTranslation(translatedText: string, matchInflections: boolean = true): Map<string, string> {
+        const found = new Map<string, string>();
+        const record = (id: string, form: string) => {
+            const prev = found.get(id);
+            if (!prev || form.length > prev.length) found.set(id, form);
+        };
+        const tokens = normalizeEnglishText(translatedText).split(/\s+/).filter(Boolean);
+
+        tokens.forEach((token, i) => {
+            this.forms.get(token)?.forEach(id => record(id, token));
+            if (matchInflections) this.inflectedForms.get(token)?.forEach(id => record(id, token));
+
+            this.phraseForms.get(token)?.forEach(({ pattern, id }) => {
+                const matched = matchPhraseAt(pattern, tokens, i, matchInflections);
+                if (matched) record(id, matched.words.join(' '));
+            });
+        });
+        return found;
+    }
+
+    /**
+     * 句子中所有释义的出现位置，返回对应的词条 id
+     */
+    findDefinitions(sourceText: string) {
+        return this.definitions.search(sourceText);
+    }
+}
+
+// 同一上下文 (内容脚本 / 设置页) 共享一个索引，传入的词条列表变化时增量更新
+const sharedIndex = new MatchIndex();
+let indexedSource: WordEntry[] | null = null;
+
+export const getMatchIndex = (entries: WordEntry[]): MatchIndex => {
+    if (indexedSource !== entries) {
+        sharedIndex.update(entries);
+        indexedSource = entries;
+    }
+    return sharedIndex;
+};
+
+// 已在原文中找到释义的义项优先，未出现的义项需有明显更高的得分才能将其排除
+const MATCHED_SENSE_BONUS = 0.9;
+
+/**
+ * 一处匹配结果；matcher / definition / score 记录替换的来由，供页面检查器展示
+ */
+export interface MatchResult {
+    text: string;
+    entry: WordEntry;
+    matchedWord: string;
+    index: number;
+    matcher: 'fuzzy' | 'aggressive';
+    definition: string; // 命中的中文释义片段 (或别名)
+    score: number; // calculateSimilarity(原文片段, 释义)
+}
+
+const disambiguateSenses = (matches: MatchResult[], index: MatchIndex, formsInTranslation: Map<string, string>, translatedText: string): MatchResult[] => {
+    const rejected = new Set<string>();
+    const visited = new Set<string>();
+    const matchedIds = new Set(matches.map(m => m.entry.id));
+
+    matches.forEach(({ entry }) => {
+        if (visited.has(entry.id)) return;
+        const senses = index.sensesOf(entry).filter(s => formsInTranslation.has(s.id));
+        senses.forEach(s => visited.add(s.id));
+        if (senses.length < 2) return;
+
+        const { scores, occurrences } = rankSenses(senses.map(s => ({ entry: s, surface: formsInTranslation.get(s.id)! })), translatedText);
+        const effective = (id: string) => scores.get(id)! + (matchedIds.has(id) ? MATCHED_SENSE_BONUS : 0);
+        // 单词在译文中出现几次，最多保留几个义项
+        const winners = new Set(senses.map(s => s.id).sort((a, b) => effective(b) - effective(a)).slice(0, Math.max(1, occurrences)));
+        senses.filter(s => matchedIds.has(s.id) && !winners.has(s.id)).forEach(s => rejected.add(s.id));
+    });
+
+    return matches.filter(m => !rejected.has(m.entry.id));
+};
+
 /**
  * 核心匹配逻辑：在中文源文本中寻找可以被替换的单词
  * 返回匹配的中文文本、对应的词条、以及在译文中实际出现的英文形态
+ * 默认使用共享索引；传入独立的 matchIndex 时不影响共享索引 (如回归测试)
  */
 export const findFuzzyMatches = (
     sourceText: string, 
     candidates: WordEntry[], 
-    translatedText: string = ""
-): { text: string, entry: WordEntry, matchedWord: string }[] => {
+    translatedText: string = "",
+    matchInflections: boolean = true,
+    matchIndex?: MatchIndex
+): MatchResult[] => {
     
-    const matches: { text: string, entry: WordEntry, matchedWord: string, index: number }[] = [];
-    const normalizedTrans = ` ${normalizeEnglishText(translatedText).toLowerCase()} `; // 加空格方便全词匹配
-
-    // 1. 识别在译文中出现的英文词态
-    const validMatchesWithForm = candidates.map(entry => {
-        const baseWord = entry.text.toLowerCase();
-        const inflections = (entry.inflections || []).map(i => i.toLowerCase());
-        
-        // 合并原型和所有变体，按长度降序排列（防止 matches 匹配到 match）
-        const allForms = Array.from(new Set([baseWord, ...inflections])).sort((a, b) => b.length - a.length);
-        
-        // 寻找第一个出现在译文中的形式
-        const foundForm = allForms.find(form => normalizedTrans.includes(` ${form} `) || normalizedTrans.includes(` ${form}s `) || normalizedTrans.includes(` ${form}es `));
-
-        if (foundForm || !translatedText) {
-            return { entry, matchedWord: foundForm || entry.text };
-        }
-        return null;
-    }).filter((item): item is { entry: WordEntry, matchedWord: string } => item !== null);
-
-    // 2. 在中文原文中搜索这些词条对应的中文释义
-    validMatchesWithForm.forEach(({ entry, matchedWord }) => {
-        const definitions = entry.translation
-            ?.split(/[,;，；\s/]+/) 
-            .map(d => d.trim())
-            .filter(d => d.length > 0) || [];
-
-        definitions.forEach(def => {
-            let startIndex = 0;
-            let foundIndex = sourceText.indexOf(def, startIndex);
-            
-            while (foundIndex !== -1) {
-                matches.push({
-                    text: def,
-                    entry: entry,
-                    matchedWord: matchedWord,
-                    index: foundIndex
-                });
-                startIndex = foundIndex + 1; 
-                foundIndex = sourceText.indexOf(def, startIndex);
-            }
+    const matches: MatchResult[] = [];
+    const index = matchIndex || getMatchIndex(candidates);
+
+    // 1. 识别在译文中出现的英文词态 (无译文时所有词条都参与匹配)
+    const formsInTranslation = translatedText ? index.findFormsInTranslation(translatedText, matchInflections) : null;
+
+    // 2. 在中文原文中搜索这些词条对应的中文释义 (需落在分词边界上，避免 "和" 命中 "和平")
+    // 繁体页面先逐字转为简体再匹配，位置与原文一一对应
+    const text = toSimplified(sourceText);
+    const hits = index.findDefinitions(text);
+    const spans = hits.length > 0 ? segmentChinese(text) : [];
+    hits.forEach(hit => {
+        if (!isWordAligned(text, spans, hit.start, hit.end)) return;
+        hit.values.forEach(id => {
+            const entry = index.getEntry(id);
+            if (!entry || isExcludedMatch(text, hit.start, hit.end, entry)) return;
+            const matchedWord = formsInTranslation ? formsInTranslation.get(id) : entry.text;
+            if (!matchedWord) return;
+            matches.push({ text: sourceText.substring(hit.start, hit.end), entry, matchedWord, index: hit.start, matcher: 'fuzzy', definition: hit.pattern, score: calculateSimilarity(text.substring(hit.start, hit.end), hit.pattern) });
         });
     });
 
-    // 3. 贪婪匹配去重
-    matches.sort((a, b) => b.text.length - a.text.length || a.index - b.index);
+    // 3. 义项消歧：同一单词保存了多个义项时，只保留最符合译文语境的义项
+    const disambiguated = formsInTranslation ? disambiguateSenses(matches, index, formsInTranslation, translatedText) : matches;
+
+    // 4. 贪婪匹配去重
+    const ordered = [...disambiguated].sort((a, b) => b.text.length - a.text.length || a.index - b.index);
 
     const finalResults: typeof matches = [];
     const occupiedRanges: [number, number][] = [];
 
-    for (const match of matches) {
+    for (const match of ordered) {
         const start = match.index;
         const end = match.index + match.text.length;
         const isOverlapping = occupiedRanges.some(([os, oe]) => (start >= os && start < oe) || (end > os && end <= oe));
@@ -90,35 +359,38 @@ export const findFuzzyMatches = (
         }
     }
 
-    return finalResults.map(r => ({ text: r.text, entry: r.entry, matchedWord: r.matchedWord }));
+    return finalResults;
 };
 
 /**
  * 激进模式匹配 (Aggressive Matching)
- * 同样需要支持词态识别
+ * 同样需要支持词态识别；dictionaryDefinitions 为预先缓存的词典中文释义，匹配过程不发起请求
  */
 export const findAggressiveMatches = (
     sourceText: string,
     missedEntry: WordEntry,
-    richData: RichDictionaryResult,
-    translatedText: string = ""
-): { text: string, entry: WordEntry, matchedWord: string }[] => {
+    dictionaryDefinitions: string[],
+    translatedText: string = "",
+    matchInflections: boolean = true
+): MatchResult[] => {
     
     // 首先确定英文形态
     const normTrans = ` ${normalizeEnglishText(translatedText).toLowerCase()} `;
-    const allForms = Array.from(new Set([missedEntry.text.toLowerCase(), ...(missedEntry.inflections || []).map(i => i.toLowerCase())])).sort((a, b) => b.length - a.length);
+    const base = missedEntry.text.toLowerCase();
+    const inflected = matchInflections ? [...(missedEntry.inflections || []).map(i => i.toLowerCase()), ...inflect(base, missedEntry.partOfSpeech)] : [];
+    const allForms = Array.from(new Set([base, ...spellingVariants(base), ...inflected])).sort((a, b) => b.length - a.length);
     const matchedWord = allForms.find(f => normTrans.includes(` ${f} `)) || missedEntry.text;
 
-    const allDefinitions = new Set<string>();
-    richData.meanings.forEach(m => {
-        if(m.defCn) m.defCn.split(/[,;，；/]/).forEach(d => allDefinitions.add(d.trim()));
-    });
-    
-    const definitions = Array.from(allDefinitions).filter(d => d.length > 0 && /[\u4e00-\u9fa5]/.test(d));
+    const aliases = (missedEntry.aliases || []).map(a => toSimplified(a.trim())).filter(Boolean);
+    const definitions = [
+        ...dictionaryDefinitions.filter(d => isMatchableDefinition(d, missedEntry)),
+        ...aliases
+    ];
     if (definitions.length === 0) return [];
 
+    const text = toSimplified(sourceText);
     const segmenter = new (Intl as any).Segmenter('zh-CN', { granularity: 'word' });
-    const segments = Array.from((segmenter as any).segment(sourceText)).map((s: any) => s.segment as string);
+    const segments = Array.from((segmenter as any).segment(text)).map((s: any) => s.segment as string);
     const candidates: string[] = [];
     segments.forEach((s, i) => {
         if (/[\u4e00-\u9fa5]/.test(s)) {
@@ -127,9 +399,10 @@ export const findAggressiveMatches = (
         }
     });
 
-    const uniqueCandidates = Array.from(new Set(candidates));
+    const uniqueCandidates = Array.from(new Set(candidates)).filter(c => isMatchableDefinition(c, missedEntry) || aliases.includes(c));
     let bestMatchText = "";
     let bestScore = 0;
+    let bestDefinition = "";
     const THRESHOLD = 0.65;
 
     for (const cand of uniqueCandidates) {
@@ -139,14 +412,20 @@ export const findAggressiveMatches = (
                 if (cand.length > bestMatchText.length || (cand.length === bestMatchText.length && score > bestScore)) {
                     bestScore = score;
                     bestMatchText = cand;
+                    bestDefinition = def;
                 }
             }
         }
     }
 
-    if (bestMatchText) {
-        return [{ text: bestMatchText, entry: missedEntry, matchedWord }];
+    // 返回每一处出现的位置，跳过落在排除词中的位置
+    const results: MatchResult[] = [];
+    let pos = bestMatchText ? text.indexOf(bestMatchText) : -1;
+    while (pos !== -1) {
+        if (!isExcludedMatch(text, pos, pos + bestMatchText.length, missedEntry)) {
+            results.push({ text: sourceText.substring(pos, pos + bestMatchText.length), entry: missedEntry, matchedWord, index: pos, matcher: 'aggressive', definition: bestDefinition, score: bestScore });
+        }
+        pos = text.indexOf(bestMatchText, pos + 1);
     }
-
-    return [];
+    return results;
 };
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { browser } from "wxt/browser";
+import { BackgroundMessage, BackgroundResponse, BackgroundResponseData } from "../types";
+
+/**
+ * 向 Background 发送消息，响应按消息类型推断 data 的类型
+ */
+export const sendBackgroundMessage = <M extends BackgroundMessage>(message: M): Promise<BackgroundResponse<BackgroundResponseData[M['action']]> | undefined> => {
+    return browser.runtime.sendMessage(message);
+};
@@ -0,0 +1,348 @@
+/**
+ * 规则式英文词形处理 (本地运行，无需词典)
+ * - inflect：由原形生成可能出现的变形，用于在译文中找到词条的实际词形
+ * - toLemma：把变形还原为原形，用于查词与词条去重
+ * 覆盖不规则动词 / 名词 / 形容词、复数、比较级、-ing / -ed 的拼写变化以及英美拼写差异。
+ */
+
+// 不规则动词：原形 过去式 过去分词 (多个写法用 / 分隔)
+const IRREGULAR_VERB_TABLE = `
+arise arose arisen|awake awoke awoken|bear bore born/borne|beat beat beaten|become became become|begin began begun
+bend bent bent|bet bet bet|bind bound bound|bite bit bitten|bleed bled bled|blow blew blown|break broke broken
+breed bred bred|bring brought brought|build built built|burn burnt/burned burnt/burned|burst burst burst|buy bought bought
+cast cast cast|catch caught caught|choose chose chosen|cling clung clung|come came come|cost cost cost|creep crept crept
+cut cut cut|deal dealt dealt|dig dug dug|draw drew drawn|dream dreamt/dreamed dreamt/dreamed|drink drank drunk
+drive drove driven|eat ate eaten|fall fell fallen|feed fed fed|feel felt felt|fight fought fought|find found found
+flee fled fled|fling flung flung|fly flew flown|forbid forbade forbidden|forecast forecast forecast|forget forgot forgotten
+forgive forgave forgiven|freeze froze frozen|get got got/gotten|give gave given|go went gone|grind ground ground
+grow grew grown|hang hung hung|hear heard heard|hide hid hidden|hit hit hit|hold held held|hurt hurt hurt|keep kept kept
+kneel knelt knelt|know knew known|lay laid laid|lead led led|lean leant/leaned leant/leaned|leap leapt/leaped leapt/leaped
+learn learnt/learned learnt/learned|leave left left|lend lent lent|let let let|lie lay lain|light lit lit|lose lost lost
+make made made|mean meant meant|meet met met|mislead misled misled|mistake mistook mistaken|overcome overcame overcome
+overtake overtook overtaken|pay paid paid|prove proved proven/proved|put put put|quit quit quit|read read read|ride rode ridden
+ring rang rung|rise rose risen|run ran run|say said said|see saw seen|seek sought sought|sell sold sold|send sent sent
+set set set|sew sewed sewn|shake shook shaken|shed shed shed|shine shone shone|shoot shot shot|show showed shown
+shrink shrank shrunk|shut shut shut|sing sang sung|sink sank sunk|sit sat sat|sleep slept slept|slide slid slid
+smell smelt/smelled smelt/smelled|speak spoke spoken|speed sped sped|spell spelt/spelled spelt/spelled|spend spent spent
+spill spilt/spilled spilt/spilled|spin spun spun|spit spat spat|split split split|spoil spoilt/spoiled spoilt/spoiled
+spread spread spread|spring sprang sprung|stand stood stood|steal stole stolen|stick stuck stuck|sting stung stung
+stink stank stunk|stride strode stridden|strike struck struck|strive strove striven|swear swore sworn|sweep swept swept
+swell swelled swollen|swim swam swum|swing swung swung|take took taken|teach taught taught|tear tore torn|tell told told
+think thought thought|throw threw thrown|tread trod trodden|understand understood understood|undertake undertook undertaken
+upset upset upset|wake woke woken|wear wore worn|weave wove woven|weep wept wept|win won won|wind wound wound
+withdraw withdrew withdrawn|write wrote written
+`;
+
+// 形式特殊的常用动词，全部变形直接列出
+const SPECIAL_VERBS: Record<string, string[]> = {
+    be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+    have: ['has', 'had', 'having'],
+    do: ['does', 'did', 'done', 'doing'],
+    go: ['goes', 'went', 'gone', 'going'],
+    say: ['says', 'said', 'saying'],
+    lie: ['lies', 'lay', 'lain', 'lying', 'lied']
+};
+
+const IRREGULAR_NOUNS: Record<string, string[]> = {
+    man: ['men'], woman: ['women'], child: ['children'], person: ['people', 'persons'], foot: ['feet'], tooth: ['teeth'],
+    mouse: ['mice'], goose: ['geese'], ox: ['oxen'], analysis: ['analyses'], crisis: ['crises'], thesis: ['theses'],
+    basis: ['bases'], hypothesis: ['hypotheses'], diagnosis: ['diagnoses'], phenomenon: ['phenomena'], criterion: ['criteria'],
+    datum: ['data'], medium: ['media', 'mediums'], curriculum: ['curricula', 'curriculums'], cactus: ['cacti', 'cactuses'],
+    fungus: ['fungi'], nucleus: ['nuclei'], stimulus: ['stimuli'], index: ['indices', 'indexes'], appendix: ['appendices', 'appendixes'],
+    life: ['lives'], wife: ['wives'], knife: ['knives'], leaf: ['leaves'], half: ['halves'], wolf: ['wolves'], shelf: ['shelves'],
+    thief: ['thieves'], loaf: ['loaves'], calf: ['calves'], self: ['selves'], elf: ['elves'], scarf: ['scarves', 'scarfs']
+};
+
+const IRREGULAR_ADJECTIVES: Record<string, string[]> = {
+    good: ['better', 'best'], well: ['better', 'best'], bad: ['worse', 'worst'], ill: ['worse', 'worst'],
+    far: ['farther', 'farthest', 'further', 'furthest'], little: ['less', 'least'], many: ['more', 'most'], much: ['more', 'most'],
+    old: ['older', 'oldest', 'elder', 'eldest']
+};
+
+// 常见的可加 -er / -est 的形容词 (词条未标注词性时使用)
+const COMPARABLE_ADJECTIVES = new Set([
+    'big', 'small', 'large', 'long', 'short', 'tall', 'high', 'low', 'fast', 'slow', 'quick', 'young', 'new', 'hot', 'cold',
+    'warm', 'cool', 'wet', 'dry', 'clean', 'dirty', 'easy', 'hard', 'soft', 'strong', 'weak', 'rich', 'poor', 'cheap', 'deep',
+    'wide', 'narrow', 'thin', 'thick', 'heavy', 'light', 'bright', 'dark', 'loud', 'quiet', 'happy', 'sad', 'angry', 'busy',
+    'early', 'late', 'near', 'close', 'simple', 'clever', 'kind', 'nice', 'fine', 'great', 'safe', 'true', 'wise', 'brave',
+    'calm', 'clear', 'fresh', 'full', 'hungry', 'lucky', 'lazy', 'healthy', 'pretty', 'ugly', 'funny', 'friendly', 'gentle',
+    'noisy', 'tiny', 'huge', 'sharp', 'smooth', 'rough', 'tough', 'tight', 'loose', 'fat', 'slim', 'proud', 'rare', 'rude',
+    'shy', 'sick', 'silly', 'sweet', 'wild', 'dull', 'fair', 'firm', 'flat', 'grand', 'harsh', 'keen', 'mild', 'neat', 'odd',
+    'pale', 'pure', 'strict', 'vast', 'weird', 'wealthy', 'empty', 'lonely', 'lovely', 'free', 'dim', 'tidy', 'sunny', 'cloudy'
+]);
+
+// 上表中同时常作动词或名词的词，仍生成 -s / -ed / -ing
+const VERB_OR_NOUN_ADJECTIVES = new Set([
+    'clean', 'clear', 'close', 'cool', 'dry', 'empty', 'light', 'slow', 'smooth', 'warm', 'wet', 'calm', 'free', 'narrow',
+    'dim', 'thin', 'tidy', 'quiet', 'fine', 'flat', 'fat', 'slim', 'low', 'high', 'dark', 'tight', 'loose', 'sweet'
+]);
+
+// 重音在末音节、加 -ed / -ing 时双写末尾辅音的多音节动词
+const STRESSED_FINAL_VERBS = new Set([
+    'begin', 'occur', 'prefer', 'refer', 'confer', 'defer', 'infer', 'transfer', 'deter', 'incur', 'recur', 'concur',
+    'admit', 'commit', 'permit', 'submit', 'omit', 'emit', 'transmit', 'acquit', 'regret', 'forget', 'beget', 'upset',
+    'control', 'patrol', 'compel', 'propel', 'expel', 'repel', 'rebel', 'excel', 'equip', 'forbid', 'allot', 'embed',
+    'outwit', 'abhor', 'enrol', 'instil', 'distil', 'annul', 'unwrap', 'kidnap'
+]);
+
+// 以 s / ed / ing / est 结尾但本身就是原形的常见词，还原时不做处理
+const LEMMA_EXCEPTIONS = new Set([
+    'news', 'series', 'species', 'always', 'perhaps', 'besides', 'towards', 'afterwards', 'sometimes', 'physics', 'mathematics',
+    'economics', 'politics', 'ethics', 'lens', 'gas', 'yes', 'plus', 'bus', 'thus', 'chaos', 'canvas', 'atlas', 'bias',
+    'during', 'thing', 'nothing', 'something', 'anything', 'everything', 'morning', 'evening', 'ceiling', 'string', 'spring',
+    'king', 'ring', 'sing', 'bring', 'wing', 'swing', 'sting', 'cling', 'fling', 'sling', 'ping', 'ding',
+    'need', 'speed', 'seed', 'feed', 'bleed', 'breed', 'greed', 'deed', 'weed', 'creed', 'proceed', 'succeed', 'exceed',
+    'indeed', 'heed', 'reed', 'hundred', 'kindred', 'sacred', 'naked', 'wicked', 'wretched', 'rugged', 'ragged', 'beloved', 'shed',
+    'bed', 'red', 'fed', 'led', 'wed', 'sled', 'bred', 'fled', 'bled', 'sped', 'shred',
+    'interest', 'forest', 'honest', 'modest', 'harvest', 'chest', 'guest', 'rest', 'test', 'nest', 'west', 'quest', 'request',
+    'protest', 'contest', 'suggest', 'digest', 'invest', 'arrest', 'manifest', 'priest', 'earnest', 'midst', 'against'
+]);
+
+// 以 s 结尾的名词，复数加 -es (buses)，还原时去掉 -es 而不是 -s
+const S_ENDING_NOUNS = new Set([
+    'bus', 'gas', 'lens', 'plus', 'atlas', 'bias', 'canvas', 'bonus', 'virus', 'campus', 'focus', 'census', 'status',
+    'circus', 'genius', 'iris', 'alias', 'surplus', 'chorus', 'minus', 'octopus', 'apparatus', 'syllabus', 'prospectus'
+]);
+
+// 以 "辅音 + o" 结尾、复数 / 第三人称加 -es 的词；其余 (photo、piano) 只加 -s
+const O_ES_WORDS = new Set([
+    'potato', 'tomato', 'hero', 'echo', 'veto', 'torpedo', 'embargo', 'volcano', 'mosquito', 'tornado', 'cargo', 'domino',
+    'motto', 'buffalo'
+]);
+
+/**
+ * 英式拼写 -> 美式拼写 (只收录常用词，避免 -our / -re / -ise 规则误伤 four、here、rise 等)
+ */
+const UK_TO_US: Record<string, string> = {
+    colour: 'color', favour: 'favor', honour: 'honor', labour: 'labor', behaviour: 'behavior', neighbour: 'neighbor',
+    humour: 'humor', flavour: 'flavor', harbour: 'harbor', rumour: 'rumor', vapour: 'vapor', vigour: 'vigor', savour: 'savor',
+    armour: 'armor', endeavour: 'endeavor', odour: 'odor', parlour: 'parlor', splendour: 'splendor', tumour: 'tumor',
+    saviour: 'savior', favourite: 'favorite', colourful: 'colorful', honourable: 'honorable',
+    centre: 'center', theatre: 'theater', metre: 'meter', litre: 'liter', fibre: 'fiber', calibre: 'caliber', sombre: 'somber',
+    spectre: 'specter', lustre: 'luster', meagre: 'meager', sabre: 'saber', manoeuvre: 'maneuver',
+    organise: 'organize', realise: 'realize', recognise: 'recognize', apologise: 'apologize', criticise: 'criticize',
+    emphasise: 'emphasize', summarise: 'summarize', specialise: 'specialize', memorise: 'memorize', categorise: 'categorize',
+    prioritise: 'prioritize', minimise: 'minimize', maximise: 'maximize', optimise: 'optimize', standardise: 'standardize',
+    finalise: 'finalize', utilise: 'utilize', authorise: 'authorize', civilise: 'civilize', customise: 'customize',
+    harmonise: 'harmonize', legalise: 'legalize', mobilise: 'mobilize', modernise: 'modernize', normalise: 'normalize',
+    patronise: 'patronize', popularise: 'popularize', socialise: 'socialize', symbolise: 'symbolize', sympathise: 'sympathize',
+    visualise: 'visualize', characterise: 'characterize', familiarise: 'familiarize', globalise: 'globalize',
+    hospitalise: 'hospitalize', jeopardise: 'jeopardize', publicise: 'publicize', scrutinise: 'scrutinize',
+    stabilise: 'stabilize', subsidise: 'subsidize', energise: 'energize', analyse: 'analyze', paralyse: 'paralyze',
+    catalyse: 'catalyze', organisation: 'organization', realisation: 'realization', civilisation: 'civilization',
+    globalisation: 'globalization', optimisation: 'optimization', specialisation: 'specialization',
+    defence: 'defense', licence: 'license', offence: 'offense', pretence: 'pretense', catalogue: 'catalog', dialogue: 'dialog',
+    analogue: 'analog', programme: 'program', grey: 'gray', tyre: 'tire', cheque: 'check', aluminium: 'aluminum',
+    plough: 'plow', mould: 'mold', judgement: 'judgment', ageing: 'aging', jewellery: 'jewelry', pyjamas: 'pajamas',
+    travelled: 'traveled', travelling: 'traveling', traveller: 'traveler', cancelled: 'canceled', cancelling: 'canceling',
+    labelled: 'labeled', labelling: 'labeling', modelling: 'modeling', modelled: 'modeled', fuelled: 'fueled',
+    signalled: 'signaled', counsellor: 'counselor', enrol: 'enroll', fulfil: 'fulfill', skilful: 'skillful', instalment: 'installment'
+};
+const US_TO_UK: Record<string, string> = Object.fromEntries(Object.entries(UK_TO_US).map(([uk, us]) => [us, uk]));
+
+const VOWEL = 'aeiou';
+
+const parseIrregularVerbs = () => {
+    const forms: Record<string, string[]> = {};
+    IRREGULAR_VERB_TABLE.split(/[|\n]/).map(l => l.trim()).filter(Boolean).forEach(line => {
+        const [base, past, participle] = line.split(/\s+/);
+        forms[base] = Array.from(new Set([...past.split('/'), ...participle.split('/')]));
+    });
+    return forms;
+};
+const IRREGULAR_VERBS = parseIrregularVerbs();
+
+// 不规则变形 -> 原形 (同一变形可能对应多个原形，如 found / ground)
+const IRREGULAR_LEMMAS = new Map<string, string[]>();
+[IRREGULAR_VERBS, SPECIAL_VERBS, IRREGULAR_NOUNS, IRREGULAR_ADJECTIVES].forEach(table => {
+    Object.entries(table).forEach(([base, forms]) => forms.forEach(form => {
+        if (form === base) return;
+        IRREGULAR_LEMMAS.set(form, [...(IRREGULAR_LEMMAS.get(form) || []), base]);
+    }));
+});
+
+const isVowel = (ch: string | undefined) => !!ch && VOWEL.includes(ch);
+
+const countSyllables = (word: string) => (word.match(/[aeiouy]+/g) || []).length;
+
+// 以 "辅音-元音-辅音" 结尾 (末尾不是 w / x / y)，如 stop、plan、quit
+const endsWithCVC = (word: string) => /(?:^|[^aeiou]|qu)[aeiou][^aeiouwxy]$/.test(word);
+
+/**
+ * 加 -ed / -ing / -er 时是否需要双写末尾辅音
+ * 单音节词与重音在末音节的动词 (begin、prefer) 双写；visit、offer 等重音在前的不双写；
+ * 以 -l 结尾的多音节词英式双写、美式不双写，两种写法都返回 (travelled / traveled)
+ */
+const doublingOptions = (word: string): boolean[] => {
+    if (!endsWithCVC(word)) return [false];
+    if (countSyllables(word) === 1 || STRESSED_FINAL_VERBS.has(word)) return [true];
+    return word.endsWith('l') ? [false, true] : [false];
+};
+
+const ADJECTIVE_POS = /adj/i;
+const VERB_OR_NOUN_POS = /(?:^|[^a-z])(?:v[ti]?|n)\./i;
+
+/**
+ * 是否生成比较级：标注了词性时按词性 (单音节或以 y / le / ow / er 结尾的双音节形容词)，否则只认常见形容词表
+ */
+const isComparable = (word: string, partOfSpeech?: string): boolean => {
+    if (IRREGULAR_ADJECTIVES[word]) return false;
+    if (!partOfSpeech) return COMPARABLE_ADJECTIVES.has(word);
+    if (!ADJECTIVE_POS.test(partOfSpeech)) return false;
+    const syllables = countSyllables(word.replace(/([^l])e$/, '$1'));
+    return syllables <= 1 || (syllables === 2 && /(?:y|le|ow|er)$/.test(word));
+};
+
+/**
+ * 只作形容词的词不生成 -s / -ed / -ing (happies、happying)
+ */
+const isAdjectiveOnly = (word: string, partOfSpeech?: string): boolean => {
+    if (!partOfSpeech) return COMPARABLE_ADJECTIVES.has(word) && !VERB_OR_NOUN_ADJECTIVES.has(word);
+    return ADJECTIVE_POS.test(partOfSpeech) && !VERB_OR_NOUN_POS.test(partOfSpeech);
+};
+
+const addSuffix = (word: string, suffix: string): string[] => {
+    const last = word[word.length - 1];
+    const prev = word[word.length - 2];
+
+    if (suffix === 's') {
+        if (/(?:s|x|z|ch|sh)$/.test(word)) return [`${word}es`];
+        if (last === 'y' && !isVowel(prev)) return [`${word.slice(0, -1)}ies`];
+        if (last === 'o' && !isVowel(prev)) return O_ES_WORDS.has(word) ? [`${word}es`, `${word}s`] : [`${word}s`];
+        if (/[^f]fe?$/.test(word) || /lf$/.test(word)) return [`${word}s`, `${word.replace(/fe?$/, '')}ves`];
+        return [`${word}s`];
+    }
+
+    // -ed / -ing / -er / -est
+    const startsWithE = suffix.startsWith('e');
+    if (last === 'e') {
+        if (suffix === 'ing') {
+            if (word.endsWith('ie')) return [`${word.slice(0, -2)}ying`];
+            if (/(?:ee|ye|oe)$/.test(word)) return [`${word}ing`];
+        }
+        return [startsWithE ? `${word}${suffix.slice(1)}` : `${word.slice(0, -1)}${suffix}`];
+    }
+    if (last === 'y' && !isVowel(prev) && suffix !== 'ing') return [`${word.slice(0, -1)}i${suffix}`];
+    // panic -> panicked / panicking
+    if (last === 'c' && isVowel(prev) && suffix !== 'er' && suffix !== 'est') return [`${word}k${suffix}`];
+    return doublingOptions(word).map(double => double ? `${word}${last}${suffix}` : `${word}${suffix}`);
+};
+
+/**
+ * 英美拼写互换，返回包括自身在内的所有写法
+ */
+export const spellingVariants = (word: string): string[] => {
+    const lower = word.toLowerCase();
+    const variants = [lower];
+    if (UK_TO_US[lower]) variants.push(UK_TO_US[lower]);
+    if (US_TO_UK[lower]) variants.push(US_TO_UK[lower]);
+    return variants;
+};
+
+/**
+ * 由原形生成所有可能的变形 (不含原形本身)
+ * 传入词条的词性时据此决定是否生成比较级；不生成 -er 名词 (user、maker)
+ * 多词短语不在此处理
+ */
+export const inflect = (lemma: string, partOfSpeech?: string): string[] => {
+    const base = lemma.toLowerCase().trim();
+    if (!base || /[^a-z'-]/.test(base)) return [];
+
+    const forms = new Set<string>();
+    spellingVariants(base).forEach(word => {
+        if (SPECIAL_VERBS[word]) {
+            SPECIAL_VERBS[word].forEach(f => forms.add(f));
+            return;
+        }
+        (IRREGULAR_VERBS[word] || []).forEach(f => forms.add(f));
+        (IRREGULAR_NOUNS[word] || []).forEach(f => forms.add(f));
+        (IRREGULAR_ADJECTIVES[word] || []).forEach(f => forms.add(f));
+
+        if (!isAdjectiveOnly(word, partOfSpeech)) {
+            addSuffix(word, 's').forEach(f => forms.add(f));
+            addSuffix(word, 'ing').forEach(f => forms.add(f));
+            if (!IRREGULAR_VERBS[word]) addSuffix(word, 'ed').forEach(f => forms.add(f));
+        }
+        if (isComparable(word, partOfSpeech)) {
+            addSuffix(word, 'er').forEach(f => forms.add(f));
+            addSuffix(word, 'est').forEach(f => forms.add(f));
+        }
+    });
+
+    // 变形本身也可能有英美两种拼写 (travelled / traveled)
+    Array.from(forms).forEach(f => spellingVariants(f).forEach(v => forms.add(v)));
+    spellingVariants(base).forEach(v => forms.delete(v));
+    return Array.from(forms);
+};
+
+// 去掉 -ed / -ing 后的词干是否应补回 e (hop(e)d、solv(e)d、translat(e)d)
+const needsFinalE = (stem: string) => {
+    if (countSyllables(stem) === 1 && endsWithCVC(stem)) return true;
+    return /(?:v|z|u|dg|[^aeiou]ang|[^aeiou]c|[^aeiou]at|[^aeious]s)$/.test(stem);
+};
+
+// 去掉 -ed / -ing 后的候选原形
+const verbStemCandidates = (stem: string): string[] => {
+    if (stem.length < 2) return [];
+    if (stem.length === 2) return [`${stem}e`, stem]; // used、aged、owed -> use、age、owe
+    const last = stem[stem.length - 1];
+    // 双写辅音：stopp -> stop；ll / ss 等在单音节词中本身就是原形 (call、pass)
+    if (last === stem[stem.length - 2] && !isVowel(last)) {
+        const undoubled = stem.slice(0, -1);
+        // add、err、egg 去掉一个字母后不足三个字母，本身就是原形
+        const keepsDouble = (/(?:ll|ss|ff|zz)$/.test(stem) && countSyllables(stem) === 1) || undoubled.length < 3;
+        return keepsDouble ? [stem, undoubled] : [undoubled, stem];
+    }
+    if (stem.endsWith('ck') && countSyllables(stem) > 1) return [stem.slice(0, -1), stem]; // panicked -> panic
+    return needsFinalE(stem) ? [`${stem}e`, stem] : [stem, `${stem}e`];
+};
+
+/**
+ * 可能的原形，按可能性排序 (不含单词自身)
+ */
+export const lemmatize = (word: string): string[] => {
+    const lower = word.toLowerCase().trim();
+    if (!lower || /[^a-z'-]/.test(lower) || LEMMA_EXCEPTIONS.has(lower)) return [];
+
+    const candidates: string[] = [...(IRREGULAR_LEMMAS.get(lower) || [])];
+    const push = (...items: string[]) => items.forEach(c => { if (c.length >= 2 && c !== lower) candidates.push(c); });
+
+    if (lower.endsWith('ies') && lower.length > 4) push(`${lower.slice(0, -3)}y`);
+    else if (lower.endsWith('ves') && lower.length > 4) push(`${lower.slice(0, -3)}f`, `${lower.slice(0, -3)}fe`, lower.slice(0, -1));
+    else if (lower.endsWith('es') && S_ENDING_NOUNS.has(lower.slice(0, -2))) push(lower.slice(0, -2)); // buses -> bus
+    else if (lower.endsWith('es') && /(?:ss|zz|x|ch|sh|[^aeiou]o)es$/.test(lower)) push(lower.slice(0, -2), lower.slice(0, -1));
+    else if (lower.endsWith('s') && !/(?:ss|us|is|'s)$/.test(lower) && lower.length > 3) push(lower.slice(0, -1));
+
+    if (lower.endsWith('ied') && lower.length > 4) push(`${lower.slice(0, -3)}y`);
+    else if (lower.endsWith('ied')) push(lower.slice(0, -1)); // died、tied -> die、tie
+    else if (lower.endsWith('eed') && lower.length > 4) push(lower.slice(0, -1));
+    else if (lower.endsWith('ed')) push(...verbStemCandidates(lower.slice(0, -2)));
+
+    if (lower.endsWith('ying') && lower.length <= 6) push(`${lower.slice(0, -4)}ie`, lower.slice(0, -3));
+    else if (lower.endsWith('ing')) push(...verbStemCandidates(lower.slice(0, -3)));
+
+    // 比较级只处理不会与名词混淆的形式 (happier、bigger)，teacher、corner 等不还原
+    if (/iest$/.test(lower) && lower.length > 5) push(`${lower.slice(0, -4)}y`);
+    else if (/ier$/.test(lower) && lower.length > 4) push(`${lower.slice(0, -3)}y`);
+    else if (/([^aeiou])\1(?:er|est)$/.test(lower) && !/(?:ll|ss)(?:er|est)$/.test(lower)) push(lower.replace(/([^aeiou])\1(?:er|est)$/, '$1'));
+    else if (lower.endsWith('est') && lower.length > 5) push(...verbStemCandidates(lower.slice(0, -3)));
+
+    return Array.from(new Set(candidates));
+};
+
+/**
+ * 最可能的原形；无法还原时返回单词本身 (小写)
+ */
+export const toLemma = (word: string): string => {
+    const lower = word.toLowerCase().trim();
+    return lemmatize(lower)[0] || lower;
+};
+
+/**
+ * 两个单词是否为同一原形的不同形态 (含英美拼写差异)
+ */
+export const isSameLemma = (a: string, b: string): boolean => {
+    const formsOf = (w: string) => new Set([...spellingVariants(w), ...lemmatize(w).flatMap(spellingVariants)]);
+    const formsA = formsOf(a);
+    return Array.from(formsOf(b)).some(f => formsA.has(f));
+};
@@ -0,0 +1,61 @@
+import { inflect } from "./morphology";
+
+// 可分离短语动词的小品词 (turn it off、pick the kids up)
+const PARTICLES = new Set(['off', 'on', 'up', 'down', 'out', 'in', 'away', 'back', 'over', 'around', 'about', 'through', 'aside', 'apart']);
+
+// 动词与小品词之间最多隔开的单词数，且中间不能出现连词等 (避免跨越分句)
+const MAX_SEPARATION = 3;
+const GAP_BREAKERS = new Set(['and', 'or', 'but', 'so', 'because', 'if', 'when', 'while', 'that', 'which', 'who', 'to', 'than']);
+
+export interface PhrasePattern {
+    tokens: string[];
+    headForms: Set<string>; // 首词的变形 (look forward to -> looked forward to)
+    tailForms: Set<string>; // 末词的变形 (ice cream -> ice creams)
+    separable: boolean; // 动词 + 小品词，可插入宾语
+}
+
+export interface PhraseMatch {
+    length: number; // 消耗的单词数 (含插入的宾语)
+    words: string[]; // 短语本身的单词 (不含宾语)，保留译文中的实际形态
+}
+
+/**
+ * 编译多词短语；单个单词返回 null
+ */
+export const compilePhrase = (tokens: string[]): PhrasePattern | null => {
+    if (tokens.length < 2) return null;
+    return {
+        tokens,
+        headForms: new Set(inflect(tokens[0])),
+        tailForms: new Set(inflect(tokens[tokens.length - 1])),
+        separable: tokens.length === 2 && PARTICLES.has(tokens[1])
+    };
+};
+
+/**
+ * 从第 i 个单词开始匹配短语 (tokens 为小写单词序列)
+ * matchInflections 开启时允许首词或末词变形；可分离短语动词中间可插入宾语
+ */
+export const matchPhraseAt = (pattern: PhrasePattern, tokens: string[], i: number, matchInflections: boolean): PhraseMatch | null => {
+    const { tokens: phrase, headForms, tailForms, separable } = pattern;
+    const head = tokens[i];
+    const headMatched = head === phrase[0] || (matchInflections && headForms.has(head));
+    if (!headMatched) return null;
+
+    const words = tokens.slice(i, i + phrase.length);
+    if (words.length === phrase.length && phrase.every((t, k) => {
+        if (k === 0 || words[k] === t) return true;
+        return matchInflections && k === phrase.length - 1 && head === phrase[0] && tailForms.has(words[k]);
+    })) {
+        return { length: phrase.length, words };
+    }
+
+    if (separable) {
+        for (let gap = 1; gap <= MAX_SEPARATION; gap++) {
+            const between = tokens[i + gap];
+            if (between === undefined || GAP_BREAKERS.has(between) || PARTICLES.has(between)) break;
+            if (tokens[i + gap + 1] === phrase[1]) return { length: gap + 2, words: [head, phrase[1]] };
+        }
+    }
+    return null;
+};
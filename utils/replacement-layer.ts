@@ -0,0 +1,106 @@
+interface TextSplitRecord {
+    node: Text;
+    originalValue: string;
+    inserted: Node[]; // 拆分后插入的所有节点 (替换 span 及后续文本)
+}
+
+interface BlockRecord {
+    texts: TextSplitRecord[];
+    extras: Node[]; // 在段落外部插入的节点，如双语对照块
+    attributes: Map<Element, Map<string, string | null>>; // 修改前的属性值，null 表示原本不存在
+}
+
+/**
+ * 可撤销的 DOM 修改层
+ * 内容脚本对页面的所有修改 (拆分文本节点、插入双语块、写入标记属性) 都经由此类完成，
+ * 以便按段落或整页精确还原为原始文本节点。
+ */
+export class ReplacementLayer {
+    private blocks = new Map<HTMLElement, BlockRecord>();
+    private owners = new WeakMap<Text, TextSplitRecord>();
+
+    private ensure(block: HTMLElement): BlockRecord {
+        let record = this.blocks.get(block);
+        if (!record) {
+            record = { texts: [], extras: [], attributes: new Map() };
+            this.blocks.set(block, record);
+        }
+        return record;
+    }
+
+    /**
+     * 写入属性，仅在首次修改时记录原值
+     */
+    setAttribute(block: HTMLElement, el: Element, name: string, value: string) {
+        const record = this.ensure(block);
+        let attrs = record.attributes.get(el);
+        if (!attrs) {
+            attrs = new Map();
+            record.attributes.set(el, attrs);
+        }
+        if (!attrs.has(name)) attrs.set(name, el.getAttribute(name));
+        el.setAttribute(name, value);
+    }
+
+    /**
+     * 在锚点元素之后插入节点 (例如双语对照块)
+     */
+    insertAfter(block: HTMLElement, anchor: Element, node: Node) {
+        this.ensure(block).extras.push(node);
+        anchor.after(node);
+    }
+
+    /**
+     * 将文本节点中 [start, end) 区间替换为指定元素
+     * 同一文本节点需按从后往前的顺序调用，保证前面的偏移量不变
+     */
+    wrapRange(block: HTMLElement, node: Text, start: number, end: number, element: Node) {
+        const parent = node.parentNode;
+        if (!parent) return;
+
+        let split = this.owners.get(node);
+        if (!split) {
+            split = { node, originalValue: node.nodeValue || '', inserted: [] };
+            this.ensure(block).texts.push(split);
+            this.owners.set(node, split);
+        }
+
+        const val = node.nodeValue || '';
+        const tail = document.createTextNode(val.substring(end));
+        parent.insertBefore(tail, node.nextSibling);
+        parent.insertBefore(element, node.nextSibling);
+        node.nodeValue = val.substring(0, start);
+
+        split.inserted.push(element, tail);
+        this.owners.set(tail, split);
+    }
+
+    /**
+     * 还原单个段落：移除插入的节点，恢复原始文本与属性
+     */
+    restoreBlock(block: HTMLElement) {
+        const record = this.blocks.get(block);
+        if (!record) return;
+
+        // 逆序还原，后拆分的节点先移除
+        for (let i = record.texts.length - 1; i >= 0; i--) {
+            const split = record.texts[i];
+            split.inserted.forEach(n => n.parentNode?.removeChild(n));
+            split.node.nodeValue = split.originalValue;
+            this.owners.delete(split.node);
+        }
+        record.extras.forEach(n => n.parentNode?.removeChild(n));
+        record.attributes.forEach((attrs, el) => {
+            attrs.forEach((prev, name) => {
+                if (prev === null) el.removeAttribute(name);
+                else el.setAttribute(name, prev);
+            });
+        });
+
+        this.blocks.delete(block);
+    }
+
+    restoreAll() {
+        Array.from(this.blocks.keys()).reverse().forEach(block => this.restoreBlock(block));
+    }
+}
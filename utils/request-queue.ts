@@ -1,13 +1,22 @@
-
 type Task = () => Promise<void>;
 
 export class RequestQueue {
     private activeRequests = 0;
     private queue: Task[] = [];
     private concurrencyLimit: number;
+    private minInterval: number; // 两次请求之间的最小间隔 (ms)，0 表示不限速
+    private lastStartedAt = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
 
-    constructor(concurrencyLimit: number = 3) {
+    constructor(concurrencyLimit: number = 3, requestsPerSecond: number = 0) {
         this.concurrencyLimit = concurrencyLimit;
+        this.minInterval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+    }
+
+    setLimits(concurrencyLimit: number, requestsPerSecond: number = 0) {
+        this.concurrencyLimit = Math.max(1, concurrencyLimit);
+        this.minInterval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+        this.process();
     }
 
     enqueue(task: Task) {
@@ -15,18 +24,38 @@ export class RequestQueue {
         this.process();
     }
 
+    /**
+     * 排队执行任务并返回其结果
+     */
+    run<T>(task: () => Promise<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.enqueue(() => task().then(resolve, reject));
+        });
+    }
+
     private process() {
-        if (this.activeRequests >= this.concurrencyLimit || this.queue.length === 0) return;
+        if (this.timer || this.activeRequests >= this.concurrencyLimit || this.queue.length === 0) return;
+
+        // 限速：距上次发出请求不足最小间隔时延后处理
+        const wait = this.lastStartedAt + this.minInterval - Date.now();
+        if (wait > 0) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.process();
+            }, wait);
+            return;
+        }
 
         const task = this.queue.shift();
         if (task) {
             this.activeRequests++;
+            this.lastStartedAt = Date.now();
             task().finally(() => {
                 this.activeRequests--;
                 this.process();
             });
         }
-        
+
         // Try to schedule next immediately if slots available
         if (this.queue.length > 0) {
             this.process();
@@ -0,0 +1,39 @@
+import { Scenario, StyleConfig, WordCategory, WordEntry } from "../types";
+
+/**
+ * 计算当前页面启用的场景
+ * 优先级: 悬浮窗为该站点选择的场景 > 站点规则指定的场景 > 全局启用状态
+ */
+export const resolveActiveScenarioIds = (
+    scenarios: Scenario[],
+    ruleScenarioIds?: string[],
+    siteScenarioIds?: string[]
+): Set<string> => {
+    if (siteScenarioIds && siteScenarioIds.length > 0) return new Set(siteScenarioIds);
+    if (ruleScenarioIds && ruleScenarioIds.length > 0) return new Set(ruleScenarioIds);
+    return new Set(scenarios.filter(s => s.isActive).map(s => s.id));
+};
+
+/**
+ * 仅保留启用场景中的词条
+ * 未设置场景或场景已被删除的词条始终保留，避免数据"消失"
+ */
+export const filterEntriesByScenario = (entries: WordEntry[], scenarios: Scenario[], activeIds: Set<string>): WordEntry[] => {
+    const knownIds = new Set(scenarios.map(s => s.id));
+    return entries.filter(e => !e.scenarioId || !knownIds.has(e.scenarioId) || activeIds.has(e.scenarioId));
+};
+
+/**
+ * 将场景的样式覆盖叠加到全局样式上
+ */
+export const mergeScenarioStyles = (
+    styles: Record<WordCategory, StyleConfig>,
+    scenario?: Scenario
+): Record<WordCategory, StyleConfig> => {
+    if (!scenario?.styles) return styles;
+    const merged = { ...styles };
+    (Object.keys(scenario.styles) as WordCategory[]).forEach(cat => {
+        merged[cat] = { ...merged[cat], ...scenario.styles![cat] };
+    });
+    return merged;
+};
@@ -0,0 +1,192 @@
+import { DictionaryMeaningCard, RichDictionaryResult, TranslationEngine, WordCategory, WordEntry } from "../types";
+import { fetchRichWordDetails } from "./dictionary-service";
+import { buildMixedSentence } from "./context-capture";
+import { entriesStorage } from "./storage";
+import { toLemma } from "./morphology";
+import { toSimplified } from "./chinese-variants";
+import { sendBackgroundMessage } from "./messaging";
+
+export const CHINESE_CHAR_REGEX = /[\u4e00-\u9fa5]/;
+
+const BLOCK_SELECTOR = 'p, li, td, th, h1, h2, h3, h4, h5, h6, blockquote, dd, dt, figcaption, pre, article, section, div';
+
+export interface SelectionContext {
+    text: string;
+    sentence: string;
+    sentenceOffset: number; // 选中文本在句子中的起始位置
+    paragraph: string;
+    url: string;
+    rect: DOMRect | null;
+}
+
+// 句子边界：中英文句末标点与换行，英文句点需后接空白才算句末 (避免 3.5、e.g. 被截断)
+const isSentenceEnd = (text: string, i: number) => {
+    const ch = text[i];
+    if (/[。！？!?\n]/.test(ch)) return true;
+    return ch === '.' && (i + 1 >= text.length || /\s/.test(text[i + 1]));
+};
+
+/**
+ * 截取 [start, end) 所在的完整句子，返回句子及该区间在句子中的偏移
+ */
+export const extractSentence = (full: string, start: number, end: number): { sentence: string, offset: number } => {
+    let from = start;
+    while (from > 0 && !isSentenceEnd(full, from - 1)) from--;
+    let to = Math.min(full.length, end);
+    while (to < full.length && !isSentenceEnd(full, to)) to++;
+    while (to < full.length && /[。！？.!?"”」』]/.test(full[to])) to++;
+
+    const raw = full.substring(from, to);
+    const leading = raw.length - raw.trimStart().length;
+    return { sentence: raw.trim(), offset: start - from - leading };
+};
+
+/**
+ * 读取当前选区及其所在的句子、段落
+ */
+export const getSelectionContext = (selection: Selection | null = window.getSelection()): SelectionContext | null => {
+    if (!selection || selection.rangeCount === 0) return null;
+    const text = selection.toString().trim();
+    if (!text) return null;
+
+    const range = selection.getRangeAt(0);
+    const container = range.commonAncestorContainer;
+    const el = container.nodeType === Node.ELEMENT_NODE ? container as Element : container.parentElement;
+    const block = (el?.closest(BLOCK_SELECTOR) as HTMLElement | null) || document.body;
+
+    const full = block.textContent || '';
+    const pre = document.createRange();
+    pre.selectNodeContents(block);
+    pre.setEnd(range.startContainer, range.startOffset);
+    let offset = pre.toString().length;
+    // 选区首尾可能带空白，对齐到实际文本
+    const found = full.indexOf(text, offset);
+    if (found !== -1 && found - offset < 5) offset = found;
+
+    const { sentence, offset: sentenceOffset } = extractSentence(full, offset, offset + text.length);
+
+    return {
+        text,
+        sentence,
+        sentenceOffset,
+        paragraph: full.replace(/\s+/g, ' ').trim(),
+        url: location.href,
+        rect: range.getBoundingClientRect()
+    };
+};
+
+export interface ResolvedSelection {
+    headword: string;
+    result: RichDictionaryResult;
+    meaning: DictionaryMeaningCard | null;
+    isChinese: boolean;
+    sentenceTranslation?: string;
+}
+
+/**
+ * 按原形查词 (went -> go、colours -> colour)；规则还原的原形查不到释义时退回原词
+ */
+const fetchLemmaDetails = async (word: string): Promise<RichDictionaryResult> => {
+    const lemma = /^[a-z'-]+$/.test(word) ? toLemma(word) : word;
+    if (lemma === word) return fetchRichWordDetails(word);
+    const result = await fetchRichWordDetails(lemma).catch(() => null);
+    return result && result.meanings.length > 0 ? result : fetchRichWordDetails(word);
+};
+
+/**
+ * 将选中的文本解析为英文词条
+ * 中文选区先通过翻译引擎得到英文词头 (同时翻译所在句子)，再查询词典
+ * matchInflections 开启时单词先还原为原形再查询
+ */
+export const resolveSelection = async (context: SelectionContext, engines: TranslationEngine[], matchInflections: boolean = true): Promise<ResolvedSelection> => {
+    const isChinese = CHINESE_CHAR_REGEX.test(context.text);
+    let headword = context.text;
+    let sentenceTranslation: string | undefined;
+
+    if (isChinese) {
+        const engine = engines.find(e => e.isEnabled);
+        if (!engine) throw new Error('没有可用的翻译引擎');
+        const response = await sendBackgroundMessage({ action: 'TRANSLATE_TEXT', engine, text: `${context.text} ||| ${context.sentence}`, target: 'en' });
+        if (!response?.success || !response.data) throw new Error(response?.error || '翻译失败');
+        const parts = response.data.Response.TargetText.split(/\s*\|\|\|\s*/);
+        headword = (parts[0] || '')
+            .trim()
+            .replace(/[.,;:!?。，；：！？"'“”]+$/g, '')
+            .replace(/^(to|a|an|the)\s+/i, '');
+        if (!/^[A-Z]{2,}/.test(headword)) headword = headword.toLowerCase();
+        sentenceTranslation = parts[1]?.trim();
+        if (!headword) throw new Error('未能翻译出英文单词');
+    }
+
+    const result = matchInflections ? await fetchLemmaDetails(headword) : await fetchRichWordDetails(headword);
+    const meaning = (isChinese && result.meanings.find(m => m.defCn.includes(toSimplified(context.text)))) || result.meanings[0] || null;
+    return { headword: result.text || headword, result, meaning, isChinese, sentenceTranslation };
+};
+
+/**
+ * 由查询结果生成词条，字段映射与添加单词弹窗保持一致
+ */
+export const buildEntryFromSelection = (
+    resolved: ResolvedSelection,
+    context: SelectionContext,
+    category: WordCategory,
+    scenarioId: string = '1',
+    meaning: DictionaryMeaningCard | null = resolved.meaning
+): WordEntry => {
+    const { result, headword, isChinese } = resolved;
+    // 中文选区优先使用页面上出现的中文作为释义，便于后续在页面中匹配
+    // 繁体选区转为简体保存，与词典释义保持一致
+    const selected = toSimplified(context.text);
+    const translation = meaning && (!isChinese || meaning.defCn.includes(selected)) ? meaning.defCn : (isChinese ? selected : '');
+
+    return {
+        id: `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+        text: headword,
+        phoneticUs: result.phoneticUs,
+        phoneticUk: result.phoneticUk,
+        translation,
+        englishDefinition: meaning?.defEn || '',
+        partOfSpeech: meaning?.partOfSpeech,
+        inflections: [...new Set([...result.inflections, ...(meaning?.inflections || [])])],
+        dictionaryExample: meaning?.example || '',
+        dictionaryExampleTranslation: meaning?.exampleTrans || '',
+        tags: meaning?.tags || [],
+        importance: meaning?.importance || 0,
+        cocaRank: Number(meaning?.cocaRank) || 0,
+        video: result.video,
+        phrases: result.phrases,
+        roots: result.roots,
+        synonyms: result.synonyms,
+        category,
+        addedAt: Date.now(),
+        scenarioId,
+        contextSentence: context.sentence,
+        contextSentenceTranslation: resolved.sentenceTranslation,
+        contextParagraph: context.paragraph,
+        mixedSentence: isChinese ? buildMixedSentence(context.sentence, context.sentenceOffset, context.text, headword) : '',
+        sourceUrl: context.url
+    };
+};
+
+/**
+ * 保存词条：同词同释义的已有词条会被更新分类与语境，否则新增
+ */
+export const saveSelectionEntry = async (entry: WordEntry): Promise<WordEntry[]> => {
+    const entries = await entriesStorage.getValue();
+    const existing = entries.find(e => e.text.toLowerCase() === entry.text.toLowerCase() && e.translation === entry.translation);
+    const next = existing
+        ? entries.map(e => e.id === existing.id ? {
+            ...e,
+            category: entry.category,
+            scenarioId: entry.scenarioId,
+            addedAt: entry.addedAt,
+            contextSentence: entry.contextSentence,
+            contextSentenceTranslation: entry.contextSentenceTranslation,
+            contextParagraph: entry.contextParagraph,
+            mixedSentence: entry.mixedSentence || e.mixedSentence,
+            sourceUrl: entry.sourceUrl
+        } : e)
+        : [...entries, entry];
+    await entriesStorage.setValue(next);
+    return next;
+};
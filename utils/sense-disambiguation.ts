@@ -0,0 +1,117 @@
+import { WordEntry } from "../types";
+import { normalizeEnglishText } from "./text-processing";
+import { toLemma } from "./morphology";
+
+/**
+ * 多义项消歧：同一个英文单词保存了多个义项 (book = 预订 / book = 书) 时，
+ * 根据译文中该词的词性线索与上下文，判断哪个义项更符合当前句子。
+ */
+
+export type PartOfSpeech = 'n' | 'v' | 'adj' | 'adv';
+
+const DETERMINERS = new Set(['a', 'an', 'the', 'this', 'that', 'these', 'those', 'my', 'your', 'his', 'her', 'its', 'our', 'their', 'some', 'any', 'no', 'every', 'each', 'another', 'such', 'of']);
+const MODALS = new Set(['to', 'will', 'would', 'can', 'could', 'should', 'may', 'might', 'must', 'shall', 'do', 'does', 'did', "don't", "doesn't", "didn't", "won't", "can't", 'please', 'let']);
+const SUBJECT_PRONOUNS = new Set(['i', 'you', 'we', 'they', 'he', 'she', 'it']);
+const BE_FORMS = new Set(['be', 'am', 'is', 'are', 'was', 'were', 'been', 'being']);
+const INTENSIFIERS = new Set(['very', 'too', 'so', 'quite', 'rather', 'extremely', 'really', 'more', 'most', 'less', 'least']);
+
+// 上下文比对时忽略的常见词
+const CONTEXT_STOP_WORDS = new Set([
+    ...DETERMINERS, ...MODALS, ...SUBJECT_PRONOUNS, ...BE_FORMS,
+    'and', 'or', 'but', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as', 'about', 'into', 'than', 'me', 'him', 'us', 'them', 'have', 'has', 'had', 'not'
+]);
+
+const CONTEXT_WINDOW = 6;
+
+/**
+ * 词条词性统一为 n / v / adj / adv；未记录词性时尝试从释义前缀 (如 "vt. 预订") 读取
+ */
+export const normalizePartOfSpeech = (entry: WordEntry): PartOfSpeech | null => {
+    const raw = (entry.partOfSpeech || entry.translation?.match(/^\s*([a-z]+)\./i)?.[1] || '').toLowerCase().replace(/\./g, '').trim();
+    if (!raw) return null;
+    if (/^(n|noun|pl)$/.test(raw)) return 'n';
+    if (/^(v|vt|vi|verb|aux)$/.test(raw)) return 'v';
+    if (/^(adj|a|adjective)$/.test(raw)) return 'adj';
+    if (/^(adv|ad|adverb)$/.test(raw)) return 'adv';
+    return null;
+};
+
+/**
+ * 根据前后的单词与词尾推测译文中第 i 个单词的词性，无法判断时返回 null
+ */
+export const guessPartOfSpeech = (tokens: string[], i: number): PartOfSpeech | null => {
+    const word = tokens[i];
+    const prev = tokens[i - 1];
+    const prev2 = tokens[i - 2];
+
+    if (prev && MODALS.has(prev)) return 'v';
+    if (prev && SUBJECT_PRONOUNS.has(prev) && prev !== 'it') return 'v';
+    if (prev && BE_FORMS.has(prev) && /(?:ed|ing|en)$/.test(word)) return 'v';
+    if (prev && INTENSIFIERS.has(prev)) return /ly$/.test(word) ? 'adv' : 'adj';
+    if (prev && DETERMINERS.has(prev)) return 'n';
+    // 限定词 + 形容词 + 名词 (a good book)
+    if (prev2 && DETERMINERS.has(prev2) && prev && !CONTEXT_STOP_WORDS.has(prev)) return 'n';
+    if (/ly$/.test(word)) return 'adv';
+    if (/(?:ed|ing)$/.test(word)) return 'v';
+    return null;
+};
+
+// 语境词：取原形，去掉常见词
+const contextWords = (text: string): Set<string> => {
+    return new Set(normalizeEnglishText(text).split(/\s+/).filter(w => w.length > 2 && !CONTEXT_STOP_WORDS.has(w)).map(toLemma));
+};
+
+/**
+ * 义项在译文第 position 个单词处的得分：词性吻合 +1 / 冲突 -1，
+ * 词条语境 (保存时的例句、词典例句、英文释义) 与附近单词每重合一个 +0.5，最多 +1.5
+ */
+export const scoreSense = (entry: WordEntry, tokens: string[], position: number): number => {
+    let score = 0;
+    const expected = normalizePartOfSpeech(entry);
+    const cue = guessPartOfSpeech(tokens, position);
+    if (expected && cue) score += expected === cue ? 1 : -1;
+
+    const related = contextWords([entry.contextSentenceTranslation, entry.dictionaryExample, entry.englishDefinition].filter(Boolean).join(' '));
+    if (related.size > 0) {
+        const start = Math.max(0, position - CONTEXT_WINDOW);
+        const nearby = tokens.slice(start, position + CONTEXT_WINDOW + 1)
+            .filter((w, k) => k !== position - start && w.length > 2 && !CONTEXT_STOP_WORDS.has(w))
+            .map(toLemma);
+        const overlap = new Set(nearby.filter(w => related.has(w))).size;
+        score += Math.min(1.5, overlap * 0.5);
+    }
+    return score;
+};
+
+/**
+ * 译文中某个词形 (可为多词短语) 首词出现的位置
+ */
+export const findWordPositions = (tokens: string[], surface: string): number[] => {
+    const first = surface.split(/\s+/)[0];
+    const positions: number[] = [];
+    tokens.forEach((t, i) => { if (t === first) positions.push(i); });
+    return positions;
+};
+
+/**
+ * 为一组同词义项打分，返回每个义项在最合适位置上的最高分，以及该词在译文中出现的次数
+ */
+export const rankSenses = (senses: { entry: WordEntry, surface: string }[], translatedText: string): { scores: Map<string, number>, occurrences: number } => {
+    const tokens = normalizeEnglishText(translatedText).split(/\s+/).filter(Boolean);
+    const scores = new Map<string, number>();
+    let occurrences = 0;
+    senses.forEach(({ entry, surface }) => {
+        const positions = findWordPositions(tokens, surface);
+        occurrences = Math.max(occurrences, positions.length);
+        scores.set(entry.id, positions.length > 0 ? Math.max(...positions.map(p => scoreSense(entry, tokens, p))) : 0);
+    });
+    return { scores, occurrences };
+};
+
+/**
+ * 同词的多个义项中选出最符合译文语境的一个 (得分相同时保持原顺序)
+ */
+export const pickBestSense = (senses: { entry: WordEntry, surface: string }[], translatedText: string): WordEntry => {
+    const { scores } = rankSenses(senses, translatedText);
+    return senses.reduce((best, s) => scores.get(s.entry.id)! > scores.get(best.entry.id)! ? s : best).entry;
+};
@@ -0,0 +1,131 @@
+/**
+ * 原文句子与译文句子的对齐
+ * 引擎可能把两句合并为一句，或把一句拆成两句，按位置配对会让之后的所有句子错位。
+ * 这里用动态规划寻找代价最小的对齐路径 (参考 Gale-Church)，代价由长度比例与锚点 (数字、拉丁词) 共同决定。
+ */
+
+export interface AlignmentResult {
+    aligned: string[]; // 与原文句子一一对应的译文
+    exact: boolean[]; // 该句是否一对一对齐；合并、拆分得到的译文只用于展示，不应作为单句译文缓存
+    confidence: number; // 0 ~ 1，越低说明越可能对错
+}
+
+// 低于此置信度时放弃整段译文，改为逐句翻译
+export const MIN_ALIGNMENT_CONFIDENCE = 0.5;
+
+// 对齐方式：[原文句数, 译文句数, 额外代价]
+const STEPS: [number, number, number][] = [
+    [1, 1, 0],
+    [1, 2, 0.4],
+    [2, 1, 0.4],
+    [1, 3, 0.8],
+    [3, 1, 0.8],
+    [1, 0, 1.5],
+    [0, 1, 1.5]
+];
+
+const ANCHOR_REGEX = /\d+(?:[.,]\d+)*|[A-Za-z][A-Za-z0-9'’-]+/g;
+
+/**
+ * 提取锚点：数字 (去掉千分位) 与原文中夹杂的拉丁词，译文中应原样出现
+ */
+const extractAnchors = (text: string): string[] => {
+    return Array.from(text.matchAll(ANCHOR_REGEX)).map(m => m[0].replace(/(\d),(?=\d{3})/g, '$1').toLowerCase());
+};
+
+// 原文中文按字计，译文按字符计
+const measure = (text: string) => text.replace(/\s+/g, '').length;
+
+interface Segment {
+    length: number;
+    anchors: string[];
+}
+
+const isNumber = (anchor: string) => /^\d/.test(anchor);
+
+/**
+ * 锚点代价：原文中的数字与拉丁词应出现在译文中；译文中的数字也应出现在原文中
+ * (译文中的英文单词本身不算锚点)
+ */
+const anchorCost = (source: Segment, target: Segment): number => {
+    const targetSet = new Set(target.anchors);
+    const sourceSet = new Set(source.anchors);
+    const targetNumbers = target.anchors.filter(isNumber);
+    const total = source.anchors.length + targetNumbers.length;
+    if (total === 0) return 0;
+    const missing = source.anchors.filter(a => !targetSet.has(a)).length + targetNumbers.filter(a => !sourceSet.has(a)).length;
+    return (missing / total) * 1.5;
+};
+
+const merge = (segments: Segment[], from: number, count: number): Segment => {
+    const slice = segments.slice(from, from + count);
+    return { length: slice.reduce((sum, s) => sum + s.length, 0), anchors: slice.flatMap(s => s.anchors) };
+};
+
+/**
+ * 可写入句子缓存的译文对：只取一对一对齐的句子
+ */
+export const getCacheablePairs = (sources: string[], aligned: string[], exact: boolean[]): { source: string; translation: string }[] => {
+    return sources.map((source, i) => ({ source, translation: aligned[i] })).filter((_, i) => exact[i]);
+};
+
+export const alignSentences = (sources: string[], translations: string[]): AlignmentResult => {
+    if (sources.length === 0) return { aligned: [], exact: [], confidence: 1 };
+    if (sources.length === 1) return { aligned: [translations.join(' ').trim()], exact: [translations.length === 1], confidence: translations.length > 0 ? 1 : 0 };
+    if (translations.length === 0) return { aligned: sources.map(() => ''), exact: sources.map(() => false), confidence: 0 };
+
+    const src: Segment[] = sources.map(s => ({ length: measure(s), anchors: extractAnchors(s) }));
+    const tgt: Segment[] = translations.map(t => ({ length: measure(t), anchors: extractAnchors(t) }));
+    // 期望的长度比例取自整段，适应不同引擎与文体
+    const expectedRatio = (tgt.reduce((sum, s) => sum + s.length, 0) + 1) / (src.reduce((sum, s) => sum + s.length, 0) + 1);
+
+    const n = src.length;
+    const m = tgt.length;
+    const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(Infinity));
+    const back: ([number, number] | null)[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(null));
+    const steps: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    cost[0][0] = 0;
+
+    for (let i = 0; i <= n; i++) {
+        for (let j = 0; j <= m; j++) {
+            if (cost[i][j] === Infinity) continue;
+            for (const [di, dj, penalty] of STEPS) {
+                const ni = i + di;
+                const nj = j + dj;
+                if (ni > n || nj > m) continue;
+
+                let stepCost = penalty;
+                if (di > 0 && dj > 0) {
+                    const s = merge(src, i, di);
+                    const t = merge(tgt, j, dj);
+                    stepCost += Math.abs(Math.log(((t.length + 1) / (s.length + 1)) / expectedRatio));
+                    stepCost += anchorCost(s, t);
+                }
+
+                if (cost[i][j] + stepCost < cost[ni][nj]) {
+                    cost[ni][nj] = cost[i][j] + stepCost;
+                    back[ni][nj] = [i, j];
+                    steps[ni][nj] = steps[i][j] + 1;
+                }
+            }
+        }
+    }
+
+    // 回溯路径，把译文分配给对应的原文句子
+    const aligned: string[] = sources.map(() => '');
+    const exact: boolean[] = sources.map(() => false);
+    let i = n;
+    let j = m;
+    while (i > 0 || j > 0) {
+        const [pi, pj] = back[i][j]!;
+        const text = translations.slice(pj, j).join(' ').trim();
+        // 多句原文对应同一句译文时，每句都使用合并后的译文作为匹配语境
+        for (let k = pi; k < i; k++) aligned[k] = text;
+        if (i - pi === 1 && j - pj === 1) exact[pi] = true;
+        i = pi;
+        j = pj;
+    }
+
+    const confidence = Math.exp(-cost[n][m] / Math.max(1, steps[n][m]));
+    return { aligned, exact, confidence };
+};
@@ -0,0 +1,104 @@
+import { AutoTranslateConfig, SiteRule, StyleConfig, WordCategory } from "../types";
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const globToRegExp = (glob: string) => escapeRegExp(glob).replace(/\*/g, '.*');
+
+/**
+ * 判断 URL 是否匹配站点规则
+ * 支持的写法:
+ *   example.com            -> 域名中包含 example.com 即匹配 (与旧版黑名单一致，也匹配 example.com.hk 等)
+ *   *.example.com          -> 仅子域名
+ *   example.com/docs/*     -> 指定路径前缀
+ *   https://example.com/*  -> 协议前缀会被忽略
+ */
+export const matchesUrlPattern = (pattern: string, url: string): boolean => {
+    const trimmed = pattern.trim().toLowerCase().replace(/^[a-z*]+:\/\//, '');
+    if (!trimmed) return false;
+
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return false;
+    }
+    const host = parsed.hostname.toLowerCase();
+    const path = (parsed.pathname + parsed.search).toLowerCase();
+
+    const slashIndex = trimmed.indexOf('/');
+    const hostPattern = slashIndex === -1 ? trimmed : trimmed.substring(0, slashIndex);
+    const pathPattern = slashIndex === -1 ? '' : trimmed.substring(slashIndex);
+
+    let hostMatched: boolean;
+    if (hostPattern.includes('*')) {
+        hostMatched = new RegExp(`^${globToRegExp(hostPattern)}$`).test(host);
+    } else {
+        // 不含通配符的域名沿用旧版黑名单的包含匹配，升级后 google.com 仍能覆盖 google.com.hk 等地区域名
+        hostMatched = host.includes(hostPattern);
+    }
+    if (!hostMatched) return false;
+
+    if (!pathPattern || pathPattern === '/' || pathPattern === '/*') return true;
+    // 无通配符的路径按前缀匹配
+    const pathRegex = pathPattern.includes('*') ? `^${globToRegExp(pathPattern)}$` : `^${escapeRegExp(pathPattern)}`;
+    return new RegExp(pathRegex).test(path);
+};
+
+/**
+ * 当前 URL 命中的站点规则中指定的场景 (靠后的规则优先)
+ */
+export const resolveRuleScenarioIds = (config: AutoTranslateConfig, url: string): string[] | undefined => {
+    let scenarioIds: string[] | undefined;
+    (config.siteRules || []).forEach(rule => {
+        if (rule.overrides.scenarioIds && rule.overrides.scenarioIds.length > 0 && matchesUrlPattern(rule.pattern, url)) {
+            scenarioIds = rule.overrides.scenarioIds;
+        }
+    });
+    return scenarioIds;
+};
+
+export interface ResolvedSiteSettings {
+    allowed: boolean;
+    autoTranslate: AutoTranslateConfig;
+    styles: Record<WordCategory, StyleConfig>;
+    engineId?: string;
+    scenarioIds?: string[];
+    matchedRules: SiteRule[];
+}
+
+/**
+ * 根据当前 URL 计算生效的配置
+ * - 黑名单模式: 除黑名单外都运行，白名单中的站点强制开启
+ * - 白名单模式: 仅白名单站点运行
+ * 站点规则按列表顺序依次叠加，后面的规则覆盖前面的规则
+ */
+export const resolveSiteSettings = (
+    config: AutoTranslateConfig,
+    styles: Record<WordCategory, StyleConfig>,
+    url: string
+): ResolvedSiteSettings => {
+    const mode = config.siteMode || 'blacklist';
+    const inBlacklist = config.blacklist.some(p => matchesUrlPattern(p, url));
+    const inWhitelist = config.whitelist.some(p => matchesUrlPattern(p, url));
+
+    const allowed = mode === 'whitelist' ? inWhitelist && !inBlacklist : !inBlacklist;
+    const autoTranslate: AutoTranslateConfig = { ...config, enabled: config.enabled || inWhitelist };
+    const mergedStyles = { ...styles };
+    let engineId: string | undefined;
+
+    const matchedRules = (config.siteRules || []).filter(r => matchesUrlPattern(r.pattern, url));
+    matchedRules.forEach(({ overrides }) => {
+        if (overrides.enabled !== undefined) autoTranslate.enabled = overrides.enabled;
+        if (overrides.bilingualMode !== undefined) autoTranslate.bilingualMode = overrides.bilingualMode;
+        if (overrides.translateWholePage !== undefined) autoTranslate.translateWholePage = overrides.translateWholePage;
+        if (overrides.aggressiveMode !== undefined) autoTranslate.aggressiveMode = overrides.aggressiveMode;
+        if (overrides.engineId) engineId = overrides.engineId;
+        if (overrides.styles) {
+            (Object.keys(overrides.styles) as WordCategory[]).forEach(cat => {
+                mergedStyles[cat] = { ...mergedStyles[cat], ...overrides.styles![cat] };
+            });
+        }
+    });
+
+    return { allowed, autoTranslate, styles: mergedStyles, engineId, scenarioIds: resolveRuleScenarioIds(config, url), matchedRules };
+};
@@ -1,6 +1,6 @@
 
 import { storage } from 'wxt/storage';
-import { WordEntry, WordCategory, PageWidgetConfig, AutoTranslateConfig, Scenario, TranslationEngine, AnkiConfig, StyleConfig, OriginalTextConfig, WordInteractionConfig, DictionaryEngine } from '../types';
+import { WordEntry, WordCategory, PageWidgetConfig, AutoTranslateConfig, Scenario, TranslationEngine, AnkiConfig, StyleConfig, OriginalTextConfig, WordInteractionConfig, DictionaryEngine, TranslationCacheState, DefinitionCacheState, ExposureState } from '../types';
 import { DEFAULT_PAGE_WIDGET, DEFAULT_AUTO_TRANSLATE, INITIAL_SCENARIOS, INITIAL_ENGINES, DEFAULT_ANKI_CONFIG, DEFAULT_STYLES, DEFAULT_ORIGINAL_TEXT_CONFIG, DEFAULT_WORD_INTERACTION, INITIAL_DICTIONARIES } from '../constants';
 
 // Define storage keys and default values
@@ -44,6 +44,25 @@ export const interactionConfigStorage = storage.defineItem<WordInteractionConfig
   defaultValue: DEFAULT_WORD_INTERACTION,
 });
 
+export const translationCacheStorage = storage.defineItem<TranslationCacheState>('local:translationCache', {
+  defaultValue: { records: {}, hits: 0, misses: 0 },
+});
+
+// 激进匹配所需的词典释义，由 Background 在词条保存后预先查询
+export const definitionCacheStorage = storage.defineItem<DefinitionCacheState>('local:definitionCache', {
+  defaultValue: {},
+});
+
+// 单词在浏览中的曝光记录 (展示、悬停、朗读等)，由 Background 汇总写入
+export const exposureStorage = storage.defineItem<ExposureState>('local:exposure', {
+  defaultValue: { events: [], stats: {} },
+});
+
+// 通过页面悬浮窗为各站点 (hostname) 选择的场景
+export const siteScenariosStorage = storage.defineItem<Record<string, string[]>>('local:siteScenarios', {
+  defaultValue: {},
+});
+
 // Helper to seed data if empty
 export const seedInitialData = async () => {
   const existing = await entriesStorage.getValue();
@@ -0,0 +1,127 @@
+import { TranslationCacheState, TranslationCacheStats } from "../types";
+import { translationCacheStorage } from "./storage";
+import { getHash } from "./crypto";
+
+const CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 天过期
+const MAX_RECORDS = 5000;
+const PERSIST_DELAY = 2000;
+
+/**
+ * 句子标准化：同一句话在不同页面上可能存在空白/全半角差异
+ */
+export const normalizeSentence = (text: string): string => {
+    return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * 持久化句子翻译缓存 (仅在 Background 中实例化)
+ * 内存中维护一份副本，写操作延迟合并后再落盘，避免频繁写 storage。
+ */
+export class TranslationCache {
+    private state: TranslationCacheState | null = null;
+    private loading: Promise<TranslationCacheState> | null = null;
+    private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+    private async load(): Promise<TranslationCacheState> {
+        if (this.state) return this.state;
+        if (!this.loading) {
+            this.loading = translationCacheStorage.getValue().then(v => {
+                this.state = { records: v?.records || {}, hits: v?.hits || 0, misses: v?.misses || 0 };
+                return this.state;
+            });
+        }
+        return this.loading;
+    }
+
+    private buildKey(text: string, engineId: string, target: string) {
+        return getHash(`${engineId}|${target}|${normalizeSentence(text)}`);
+    }
+
+    private schedulePersist() {
+        if (this.persistTimer) return;
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = null;
+            if (this.state) translationCacheStorage.setValue(this.state).catch(e => console.warn('[TranslationCache] persist failed', e));
+        }, PERSIST_DELAY);
+    }
+
+    /**
+     * 按 LRU 淘汰，一次性清出 10% 的空间，避免每次写入都排序
+     */
+    private evict(state: TranslationCacheState) {
+        const keys = Object.keys(state.records);
+        if (keys.length <= MAX_RECORDS) return;
+        const removeCount = keys.length - MAX_RECORDS + Math.floor(MAX_RECORDS * 0.1);
+        keys.sort((a, b) => state.records[a].lastAccessedAt - state.records[b].lastAccessedAt)
+            .slice(0, removeCount)
+            .forEach(k => delete state.records[k]);
+    }
+
+    /**
+     * 按段落批量查询：段落内所有句子都有缓存时返回译文，否则返回 null (整段需要重新翻译)
+     * engineIds 为引擎的故障切换顺序，写入时记录的是实际给出译文的引擎，读取时依次尝试
+     * 命中率按段落统计，与实际是否需要请求一致
+     */
+    async getBlocks(blocks: string[][], engineIds: string[], target: string): Promise<(string[] | null)[]> {
+        const state = await this.load();
+        const now = Date.now();
+        const results: (string[] | null)[] = [];
+        for (const sentences of blocks) {
+            const translations: string[] = [];
+            for (const text of sentences) {
+                const found = await this.lookup(state, text, engineIds, target, now);
+                if (found === null) break;
+                translations.push(found);
+            }
+            if (sentences.length > 0 && translations.length === sentences.length) {
+                state.hits++;
+                results.push(translations);
+            } else {
+                state.misses++;
+                results.push(null);
+            }
+        }
+        this.schedulePersist();
+        return results;
+    }
+
+    private async lookup(state: TranslationCacheState, text: string, engineIds: string[], target: string, now: number): Promise<string | null> {
+        for (const engineId of engineIds) {
+            const key = await this.buildKey(text, engineId, target);
+            const record = state.records[key];
+            if (!record) continue;
+            if (now - record.createdAt < CACHE_TTL) {
+                record.lastAccessedAt = now;
+                return record.text;
+            }
+            delete state.records[key];
+        }
+        return null;
+    }
+
+    async setMany(pairs: { source: string; translation: string }[], engineId: string, target: string) {
+        const state = await this.load();
+        const now = Date.now();
+        for (const { source, translation } of pairs) {
+            if (!source.trim() || !translation.trim()) continue;
+            const key = await this.buildKey(source, engineId, target);
+            state.records[key] = { text: translation, engineId, target, createdAt: now, lastAccessedAt: now };
+        }
+        this.evict(state);
+        this.schedulePersist();
+    }
+
+    async getStats(): Promise<TranslationCacheStats> {
+        const state = await this.load();
+        return { size: Object.keys(state.records).length, hits: state.hits, misses: state.misses };
+    }
+
+    async clear() {
+        // 等待进行中的读取完成，避免其回调把已清空的记录写回内存
+        if (this.loading) await this.loading.catch(() => null);
+        this.state = { records: {}, hits: 0, misses: 0 };
+        this.loading = null;
+        if (this.persistTimer) { clearTimeout(this.persistTimer); this.persistTimer = null; }
+        await translationCacheStorage.setValue(this.state);
+    }
+}
@@ -0,0 +1,86 @@
+export interface ViewportScannerOptions {
+    collect: (root: HTMLElement) => HTMLElement[]; // 在子树中找出待翻译的段落
+    onBlocks: (blocks: { block: HTMLElement, isVisible: boolean }[]) => void;
+    debounceMs?: number;
+    prefetchMargin?: string; // 提前进入视口的距离，在滚动到达前开始翻译
+}
+
+/**
+ * 增量、视口优先的段落扫描
+ * - MutationObserver 只收集新增的子树，防抖后再统一查找段落，避免每次变动都遍历整页
+ * - 段落先交给 IntersectionObserver，接近视口时才交出，屏幕内的段落排在最前
+ */
+export class ViewportScanner {
+    private mutationObserver: MutationObserver | null = null;
+    private intersectionObserver: IntersectionObserver | null = null;
+    private pendingRoots = new Set<HTMLElement>();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private observed = new WeakSet<HTMLElement>();
+
+    constructor(private options: ViewportScannerOptions) {}
+
+    start(root: HTMLElement = document.body) {
+        if (this.mutationObserver) return;
+        this.intersectionObserver = new IntersectionObserver(entries => this.handleIntersections(entries), {
+            rootMargin: this.options.prefetchMargin ?? '100% 0px'
+        });
+        this.mutationObserver = new MutationObserver(records => {
+            records.forEach(record => record.addedNodes.forEach(node => {
+                const el = node.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : node.parentElement;
+                if (el) this.pendingRoots.add(el);
+            }));
+            if (this.pendingRoots.size > 0 && !this.timer) {
+                this.timer = setTimeout(() => this.flush(), this.options.debounceMs ?? 250);
+            }
+        });
+        this.mutationObserver.observe(document.body, { childList: true, subtree: true });
+        this.observeBlocks(this.options.collect(root));
+    }
+
+    stop() {
+        this.mutationObserver?.disconnect();
+        this.mutationObserver = null;
+        this.intersectionObserver?.disconnect();
+        this.intersectionObserver = null;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.pendingRoots.clear();
+        this.observed = new WeakSet();
+    }
+
+    private flush() {
+        this.timer = null;
+        const roots = Array.from(this.pendingRoots).filter(el => el.isConnected);
+        this.pendingRoots.clear();
+        // 只保留最外层的子树，嵌套的新增节点会随祖先一起遍历
+        const outermost = roots.filter(el => !roots.some(other => other !== el && other.contains(el)));
+        outermost.forEach(root => this.observeBlocks(this.options.collect(root)));
+    }
+
+    private observeBlocks(blocks: HTMLElement[]) {
+        blocks.forEach(block => {
+            if (this.observed.has(block)) return;
+            this.observed.add(block);
+            this.intersectionObserver?.observe(block);
+        });
+    }
+
+    private handleIntersections(entries: IntersectionObserverEntry[]) {
+        const ready = entries.filter(e => e.isIntersecting && e.target.isConnected);
+        if (ready.length === 0) return;
+
+        const viewportHeight = window.innerHeight;
+        const items = ready.map(e => {
+            this.intersectionObserver?.unobserve(e.target);
+            const rect = e.boundingClientRect;
+            return {
+                block: e.target as HTMLElement,
+                isVisible: rect.bottom > 0 && rect.top < viewportHeight,
+                distance: rect.top < 0 ? -rect.bottom : rect.top - viewportHeight
+            };
+        });
+        // 屏幕内的段落自上而下优先，其余按离视口的距离排序
+        items.sort((a, b) => (a.isVisible === b.isVisible ? 0 : a.isVisible ? -1 : 1) || (a.isVisible ? 0 : a.distance - b.distance));
+        this.options.onBlocks(items.map(({ block, isVisible }) => ({ block, isVisible })));
+    }
+}
@@ -24,7 +24,7 @@ export default defineConfig({
           "default": "Alt+T",
           "mac": "Alt+T"
         },
-        "description": "开始当前页面翻译替换"
+        "description": "开始 / 停止当前页面翻译替换"
       }
     }
   },